@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: Apache 2.0
+pragma solidity ^0.8.26;
+
+import {Script} from "forge-std/Script.sol";
+
+/// @title BroadcastScript starts broadcasts from the signer selected with the SIGNER environment variable
+abstract contract BroadcastScript is Script {
+    /// @dev Broadcasts from PRIVATE_KEY when SIGNER is unset or "private-key", otherwise from the wallet
+    /// passed to forge by `ts-scripts/signer.ts forge-args` (--keystore, --mnemonics or --unlocked --sender)
+    function _startBroadcast() internal returns (address broadcaster) {
+        string memory backend = vm.envOr("SIGNER", string(""));
+        if (bytes(backend).length == 0 || keccak256(bytes(backend)) == keccak256("private-key")) {
+            uint256 privateKey = vm.envUint("PRIVATE_KEY");
+            vm.startBroadcast(privateKey);
+            return vm.addr(privateKey);
+        }
+        vm.startBroadcast();
+        return msg.sender;
+    }
+}
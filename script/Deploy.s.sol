@@ -2,11 +2,11 @@
 pragma solidity ^0.8.26;
 
 import {console2} from "forge-std/console2.sol";
-import {Script} from "forge-std/Script.sol";
+import {BroadcastScript} from "./BroadcastScript.sol";
 import {UngovernableERC20} from "../src/UngovernableERC20.sol";
 import {UngovernableGovernor} from "../src/UngovernableGovernor.sol";
 
-contract Deploy is Script {
+contract Deploy is BroadcastScript {
     struct Config {
         GovernorConfig governor;
         TokenConfig token;
@@ -30,8 +30,7 @@ contract Deploy is Script {
         string memory root = vm.projectRoot();
         string memory path = string.concat(root, "/deploy.config.json");
         string memory json = vm.readFile(path);
-        bytes memory data = vm.parseJson(json);
-        Config memory config = abi.decode(data, (Config));
+        Config memory config = _readConfig(json);
 
         // Check if DEBUG environment variable is set
         bool isDebugMode = vm.envOr("DEBUG", false);
@@ -48,20 +47,26 @@ contract Deploy is Script {
             console2.log("voteExtension: ", config.governor._initialVoteExtension);
         }
 
-        vm.startBroadcast(vm.envUint("PRIVATE_KEY"));
-        address deployer = vm.addr(vm.envUint("PRIVATE_KEY"));
+        address deployer = _startBroadcast();
         console2.log("deployer: ", deployer);
 
-        UngovernableERC20 ungovernableERC20 = new UngovernableERC20(config.token._name, config.token._symbol);
-        UngovernableGovernor ungovernableGovernor = new UngovernableGovernor(
-            config.governor._name,
-            ungovernableERC20,
-            config.governor._initialQuorumPercentage,
-            uint48(config.governor._initialVoteExtension),
-            uint48(config.governor._initialVotingDelay),
-            uint32(config.governor._initialVotingPeriod),
-            config.governor._initialProposalThreshold
-        );
+        UngovernableERC20 ungovernableERC20;
+        UngovernableGovernor ungovernableGovernor;
+        if (vm.keyExistsJson(json, ".salt")) {
+            bytes32 salt = vm.parseJsonBytes32(json, ".salt");
+            (ungovernableERC20, ungovernableGovernor) = _deployDeterministic(config, deployer, salt);
+        } else {
+            ungovernableERC20 = new UngovernableERC20(config.token._name, config.token._symbol, deployer);
+            ungovernableGovernor = new UngovernableGovernor(
+                config.governor._name,
+                ungovernableERC20,
+                config.governor._initialQuorumPercentage,
+                uint48(config.governor._initialVoteExtension),
+                uint48(config.governor._initialVotingDelay),
+                uint32(config.governor._initialVotingPeriod),
+                config.governor._initialProposalThreshold
+            );
+        }
         vm.stopBroadcast();
 
         string memory deployments = "deployments";
@@ -97,4 +102,62 @@ contract Deploy is Script {
             "./out/deployed.config.json"
         );
     }
+
+    /// @dev Deploys through the CREATE2 factory so the addresses only depend on the salt, the bytecode and the
+    /// constructor arguments. Contracts that already have code at their address are reused instead of redeployed.
+    function _deployDeterministic(Config memory config, address deployer, bytes32 salt)
+        internal
+        returns (UngovernableERC20 ungovernableERC20, UngovernableGovernor ungovernableGovernor)
+    {
+        bytes memory tokenInitCode = abi.encodePacked(
+            type(UngovernableERC20).creationCode, abi.encode(config.token._name, config.token._symbol, deployer)
+        );
+        address tokenAddress = vm.computeCreate2Address(salt, keccak256(tokenInitCode));
+        if (tokenAddress.code.length > 0) {
+            console2.log("token already deployed at: ", tokenAddress);
+            ungovernableERC20 = UngovernableERC20(tokenAddress);
+        } else {
+            ungovernableERC20 = new UngovernableERC20{salt: salt}(config.token._name, config.token._symbol, deployer);
+        }
+
+        bytes memory governorInitCode = abi.encodePacked(
+            type(UngovernableGovernor).creationCode,
+            abi.encode(
+                config.governor._name,
+                ungovernableERC20,
+                config.governor._initialQuorumPercentage,
+                uint48(config.governor._initialVoteExtension),
+                uint48(config.governor._initialVotingDelay),
+                uint32(config.governor._initialVotingPeriod),
+                config.governor._initialProposalThreshold
+            )
+        );
+        address governorAddress = vm.computeCreate2Address(salt, keccak256(governorInitCode));
+        if (governorAddress.code.length > 0) {
+            console2.log("governor already deployed at: ", governorAddress);
+            ungovernableGovernor = UngovernableGovernor(payable(governorAddress));
+        } else {
+            ungovernableGovernor = new UngovernableGovernor{salt: salt}(
+                config.governor._name,
+                ungovernableERC20,
+                config.governor._initialQuorumPercentage,
+                uint48(config.governor._initialVoteExtension),
+                uint48(config.governor._initialVotingDelay),
+                uint32(config.governor._initialVotingPeriod),
+                config.governor._initialProposalThreshold
+            );
+        }
+    }
+
+    /// @dev Reads each key by path so that numeric values may be written as decimal strings
+    function _readConfig(string memory json) internal pure returns (Config memory config) {
+        config.token._name = vm.parseJsonString(json, ".token._name");
+        config.token._symbol = vm.parseJsonString(json, ".token._symbol");
+        config.governor._name = vm.parseJsonString(json, ".governor._name");
+        config.governor._initialProposalThreshold = vm.parseJsonUint(json, ".governor._initialProposalThreshold");
+        config.governor._initialQuorumPercentage = vm.parseJsonUint(json, ".governor._initialQuorumPercentage");
+        config.governor._initialVoteExtension = vm.parseJsonUint(json, ".governor._initialVoteExtension");
+        config.governor._initialVotingDelay = vm.parseJsonUint(json, ".governor._initialVotingDelay");
+        config.governor._initialVotingPeriod = vm.parseJsonUint(json, ".governor._initialVotingPeriod");
+    }
 }
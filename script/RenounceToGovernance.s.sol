@@ -2,11 +2,11 @@
 pragma solidity ^0.8.26;
 
 import {console2} from "forge-std/console2.sol";
-import {Script} from "forge-std/Script.sol";
+import {BroadcastScript} from "./BroadcastScript.sol";
 import {UngovernableERC20} from "../src/UngovernableERC20.sol";
 import {UngovernableGovernor} from "../src/UngovernableGovernor.sol";
 
-contract RenounceToGovernance is Script {
+contract RenounceToGovernance is BroadcastScript {
     struct Config {
         GovernorConfig governor;
         MetadataConfig metadata;
@@ -36,13 +36,12 @@ contract RenounceToGovernance is Script {
     }
 
     function run() public {
-        string memory root = vm.projectRoot();
-        string memory path = string.concat(root, "/out/deployed.config.json");
-        string memory json = vm.readFile(path);
-        bytes memory data = vm.parseJson(json);
-        Config memory config = abi.decode(data, (Config));
+        (address tokenAddress, address governorAddress) = _readAddresses();
+
+        UngovernableERC20 ungovernableERC20 = UngovernableERC20(tokenAddress);
+        UngovernableGovernor ungovernableGovernor = UngovernableGovernor(payable(governorAddress));
 
-        address deployer = vm.addr(vm.envUint("PRIVATE_KEY"));
+        address deployer = _startBroadcast();
 
         // Check if DEBUG environment variable is set
         bool isDebugMode = vm.envOr("DEBUG", false);
@@ -50,23 +49,38 @@ contract RenounceToGovernance is Script {
         if (isDebugMode) {
             console2.log("DEBUG MODE ENABLED");
             console2.log("deployer: ", deployer);
-            console2.log("token address: ", config.token._address);
-            console2.log("token name: ", config.token._name);
-            console2.log("token symbol: ", config.token._symbol);
-            console2.log("governor address: ", config.governor._address);
-            console2.log("governor name: ", config.governor._name);
+            console2.log("token address: ", tokenAddress);
+            console2.log("token name: ", ungovernableERC20.name());
+            console2.log("token symbol: ", ungovernableERC20.symbol());
+            console2.log("governor address: ", governorAddress);
+            console2.log("governor name: ", ungovernableGovernor.name());
         } else {
             console2.log("deployer: ", deployer);
-            console2.log("Using token address:", config.token._address);
-            console2.log("Using governor address:", config.governor._address);
+            console2.log("Using token address:", tokenAddress);
+            console2.log("Using governor address:", governorAddress);
         }
 
-        UngovernableERC20 ungovernableERC20 = UngovernableERC20(config.token._address);
-        UngovernableGovernor ungovernableGovernor = UngovernableGovernor(payable(config.governor._address));
-
-        vm.startBroadcast(vm.envUint("PRIVATE_KEY"));
         ungovernableERC20.grantRoles(address(ungovernableGovernor), ungovernableERC20.DEFAULT_ADMIN_ROLE());
         ungovernableERC20.renounceOwnership();
         vm.stopBroadcast();
     }
+
+    /// @dev Reads the addresses from the deployments/ registry entry in DEPLOYMENT_FILE when set,
+    /// otherwise from the out/deployed.config.json written by the last Deploy.s.sol run
+    function _readAddresses() internal view returns (address tokenAddress, address governorAddress) {
+        string memory deploymentFile = vm.envOr("DEPLOYMENT_FILE", string(""));
+        if (bytes(deploymentFile).length > 0) {
+            string memory record = vm.readFile(deploymentFile);
+            tokenAddress = vm.parseJsonAddress(record, ".contracts.token.address");
+            governorAddress = vm.parseJsonAddress(record, ".contracts.governor.address");
+            return (tokenAddress, governorAddress);
+        }
+
+        string memory root = vm.projectRoot();
+        string memory path = string.concat(root, "/out/deployed.config.json");
+        string memory json = vm.readFile(path);
+        bytes memory data = vm.parseJson(json);
+        Config memory config = abi.decode(data, (Config));
+        return (config.token._address, config.governor._address);
+    }
 }
@@ -29,8 +29,10 @@ contract UngovernableERC20 is ERC20Votes, OwnableRoles {
     /// @dev The event for when a blacklist address is removed
     event Whitelist(address _address, bool _isWhitelisted);
 
-    constructor(string memory _name, string memory _symbol) ERC20(_name, _symbol) EIP712(_name, "1") {
-        _initializeOwner(msg.sender);
+    /// @param _owner The initial owner, passed in rather than taken from msg.sender so that deployments
+    /// through a CREATE2 factory are owned by the deployer instead of the factory
+    constructor(string memory _name, string memory _symbol, address _owner) ERC20(_name, _symbol) EIP712(_name, "1") {
+        _initializeOwner(_owner);
     }
 
     /// @notice Enable transfers (restricted to DEFAULT_ADMIN_ROLE and owner)
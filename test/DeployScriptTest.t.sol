@@ -199,3 +199,76 @@ contract DeployScriptTest is Test {
         vm.setEnv("DEBUG", "false");
     }
 }
+
+/// @dev Runs the salt path of Deploy without a salt in deploy.config.json
+contract DeployHarness is Deploy {
+    function readConfig(string memory json) external pure returns (Config memory) {
+        return _readConfig(json);
+    }
+
+    function deployDeterministic(Config memory config, address deployer, bytes32 salt)
+        external
+        returns (UngovernableERC20 token, UngovernableGovernor governor)
+    {
+        vm.startBroadcast(deployer);
+        (token, governor) = _deployDeterministic(config, deployer, salt);
+        vm.stopBroadcast();
+    }
+}
+
+/// @dev Compares the CREATE2 addresses of Deploy with ts-scripts/predict.ts, which is run through ffi. Run with
+/// `pnpm test:deterministic`, the comparison is skipped when FOUNDRY_FFI is not set.
+contract DeployDeterministicTest is Test {
+    bytes32 internal constant SALT = keccak256("ungovernable");
+
+    DeployHarness internal harness;
+    Deploy.Config internal config;
+    address internal deployerAddress;
+
+    function setUp() public {
+        harness = new DeployHarness();
+        config = harness.readConfig(vm.readFile(string.concat(vm.projectRoot(), "/deploy.config.json")));
+        deployerAddress = makeAddr("deployer");
+    }
+
+    function test_DeployDeterministic_MatchesPrediction() public {
+        vm.skip(!vm.envOr("FOUNDRY_FFI", false));
+
+        (UngovernableERC20 token, UngovernableGovernor governor) =
+            harness.deployDeterministic(config, deployerAddress, SALT);
+
+        string[] memory command = new string[](8);
+        command[0] = "npx";
+        command[1] = "ts-node";
+        command[2] = "ts-scripts/predict.ts";
+        command[3] = "--json";
+        command[4] = "--deployer";
+        command[5] = vm.toString(deployerAddress);
+        command[6] = "--salt";
+        command[7] = vm.toString(SALT);
+        string memory prediction = string(vm.ffi(command));
+
+        assertEq(address(token), vm.parseJsonAddress(prediction, ".token.address"), "Token address should match predict");
+        assertEq(
+            address(governor), vm.parseJsonAddress(prediction, ".governor.address"), "Governor address should match predict"
+        );
+    }
+
+    function test_DeployDeterministic_OwnerIsDeployer() public {
+        (UngovernableERC20 token, UngovernableGovernor governor) =
+            harness.deployDeterministic(config, deployerAddress, SALT);
+
+        assertEq(token.owner(), deployerAddress, "Token owner should be the deployer, not the CREATE2 factory");
+        assertEq(address(governor.token()), address(token), "Governor's token should be the deterministic token");
+    }
+
+    function test_DeployDeterministic_ReusesExistingContracts() public {
+        (UngovernableERC20 token, UngovernableGovernor governor) =
+            harness.deployDeterministic(config, deployerAddress, SALT);
+        (UngovernableERC20 reusedToken, UngovernableGovernor reusedGovernor) =
+            harness.deployDeterministic(config, deployerAddress, SALT);
+
+        assertEq(address(reusedToken), address(token), "Second run should reuse the token");
+        assertEq(address(reusedGovernor), address(governor), "Second run should reuse the governor");
+    }
+}
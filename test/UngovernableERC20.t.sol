@@ -9,14 +9,14 @@ contract UngovernableERC20Test is BaseTest {
     function setUp() public override {
         super.setUp();
         vm.startPrank(address(1));
-        ungovernableERC20 = new UngovernableERC20("Test Token", "TKEY");
+        ungovernableERC20 = new UngovernableERC20("Test Token", "TKEY", address(1));
         ungovernableERC20.grantRoles(admin1.addr, ungovernableERC20.DEFAULT_ADMIN_ROLE());
         vm.stopPrank();
     }
 
     function test_constructor() public {
         vm.prank(address(1));
-        ungovernableERC20 = new UngovernableERC20("Test Token", "TKEY");
+        ungovernableERC20 = new UngovernableERC20("Test Token", "TKEY", address(1));
 
         assertEq(ungovernableERC20.owner(), address(1), "Owner should be set to address(1)");
         assertEq(ungovernableERC20.balanceOf(address(1)), 0, "Balance of owner should be 0");
@@ -27,6 +27,14 @@ contract UngovernableERC20Test is BaseTest {
         assertEq(ungovernableERC20.symbol(), "TKEY", "Symbol should be TKEY");
     }
 
+    function test_constructor_ownerIsNotSender() public {
+        // A CREATE2 factory deploys the token, the owner must still be the given address
+        vm.prank(address(2));
+        ungovernableERC20 = new UngovernableERC20("Test Token", "TKEY", address(1));
+
+        assertEq(ungovernableERC20.owner(), address(1), "Owner should be set to address(1)");
+    }
+
     function test_enableTransferAndBurnOwnership_success() public {
         vm.prank(admin1.addr);
         ungovernableERC20.enableTransfer();
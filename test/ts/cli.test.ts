@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseCommandLine } from '../../ts-scripts/cli';
+
+test('finds the command after global flags with values', () => {
+  const { command, options, rest } = parseCommandLine(['--network', 'sepolia', 'verify', '--contracts', 'UngovernableERC20']);
+
+  assert.equal(command, 'verify');
+  assert.equal(options.network, 'sepolia');
+  assert.deepEqual(rest, ['--network', 'sepolia', '--contracts', 'UngovernableERC20']);
+});
+
+test('keeps --debug, --env-file and --yes to itself and passes the other flags on', () => {
+  const { command, options, rest } = parseCommandLine(['deploy:prod', '--debug', '--env-file', '.env.sepolia', '--json', '--yes']);
+
+  assert.equal(command, 'deploy:prod');
+  assert.deepEqual(options, { debug: true, network: undefined, json: true, yes: true, envFile: '.env.sepolia' });
+  assert.deepEqual(rest, ['--json']);
+});
+
+test('reads --flag=value forms', () => {
+  const { options, rest } = parseCommandLine(['publish:tally', '--env-file=.env.prod', '--network=mainnet']);
+
+  assert.equal(options.envFile, '.env.prod');
+  assert.equal(options.network, 'mainnet');
+  assert.deepEqual(rest, ['--network=mainnet']);
+});
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { encodeConstructorArgs, matchesDeploymentInput, namedConstructorArgs, parseConstructorArgs } from '../../ts-scripts/constructor-args';
+
+const governorAbi = [
+  {
+    type: 'constructor',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: '_name', type: 'string' },
+      { name: '_token', type: 'address' },
+      { name: '_initialQuorumPercentage', type: 'uint256' },
+      { name: '_initialVoteExtension', type: 'uint48' },
+      { name: '_initialVotingDelay', type: 'uint48' },
+      { name: '_initialVotingPeriod', type: 'uint32' },
+      { name: '_initialProposalThreshold', type: 'uint256' }
+    ]
+  }
+];
+
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+// The governor's arguments as forge writes them to run-latest.json
+const broadcastArgs = [
+  '"Ungovernable Governor"',
+  TOKEN.toLowerCase(),
+  '5',
+  '172800',
+  '86400',
+  '604800',
+  '10000000000000000000000000 [1e25]'
+];
+
+const expected = ethers.AbiCoder.defaultAbiCoder().encode(
+  ['string', 'address', 'uint256', 'uint48', 'uint48', 'uint32', 'uint256'],
+  ['Ungovernable Governor', TOKEN, 5, 172800, 86400, 604800, 10n ** 25n]
+);
+
+test('encodes broadcast arguments with spaces, small uints and addresses', () => {
+  assert.equal(encodeConstructorArgs(governorAbi, broadcastArgs), expected);
+  assert.deepEqual(parseConstructorArgs(governorAbi, broadcastArgs).slice(0, 2), ['Ungovernable Governor', TOKEN]);
+  assert.equal(namedConstructorArgs(governorAbi, broadcastArgs)._initialProposalThreshold, 10n ** 25n);
+});
+
+test('rejects arguments that do not fit the constructor', () => {
+  assert.throws(() => encodeConstructorArgs(governorAbi, broadcastArgs.slice(1)), /takes 7 argument\(s\), the deployment has 6/);
+  assert.throws(() => encodeConstructorArgs(governorAbi, [...broadcastArgs.slice(0, 5), '2', '-1']), /./);
+  assert.equal(encodeConstructorArgs([], []), '0x');
+});
+
+test('matches the end of CREATE and CREATE2 deployment inputs', () => {
+  const bytecode = '0x6080604052348015600e575f80fd5b50';
+  const salt = ethers.id('ungovernable');
+
+  assert.equal(matchesDeploymentInput(ethers.concat([bytecode, expected]), expected), true);
+  assert.equal(matchesDeploymentInput(ethers.concat([salt, bytecode, expected]), expected), true);
+
+  const renamed = encodeConstructorArgs(governorAbi, ['"Ungovernable"', ...broadcastArgs.slice(1)]);
+  assert.equal(matchesDeploymentInput(ethers.concat([bytecode, expected]), renamed), false);
+});
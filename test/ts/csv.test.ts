@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readCsv } from '../../ts-scripts/csv';
+
+const withCsv = (content: string, run: (file: string) => void) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'csv-'));
+  try {
+    const file = path.join(dir, 'rows.csv');
+    fs.writeFileSync(file, content);
+    run(file);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+test('reads quoted fields and skips comments and blank lines', () => {
+  withCsv('# allocations\nAddress,Label\n\n0x01,"Team, ""core"""\n', file => {
+    assert.deepEqual(readCsv(file), [{ address: '0x01', label: 'Team, "core"' }]);
+  });
+});
+
+test('reports the line number in the file after comments and blank lines', () => {
+  withCsv('# allocations\naddress,amount\n\n# team\n0x01,1\n0x02\n', file => {
+    assert.throws(() => readCsv(file), /line 6: expected 2 fields, got 1/);
+  });
+});
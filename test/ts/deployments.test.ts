@@ -0,0 +1,207 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getActiveDeploymentName,
+  listDeployments,
+  parseDeploymentArg,
+  recordDeployment,
+  resolveDeployment,
+  useDeployment
+} from '../../ts-scripts/deployments';
+import { ContractArtifact } from '../../ts-scripts/artifacts';
+import { predictDeployment } from '../../ts-scripts/predict';
+import { validateDeployConfig } from '../../ts-scripts/validate-config';
+
+const CHAIN_ID = 31337;
+const DEPLOYER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const GOVERNOR = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+const artifact = (inputs: [string, string][]): ContractArtifact => ({
+  abi: [{ type: 'constructor', stateMutability: 'nonpayable', inputs: inputs.map(([name, type]) => ({ name, type })) }],
+  bytecode: { object: '0x6080604052' },
+  metadata: { compiler: { version: '0.8.28+commit.7893614a' } }
+});
+
+const artifacts = {
+  UngovernableERC20: artifact([['_name', 'string'], ['_symbol', 'string'], ['_owner', 'address']]),
+  UngovernableGovernor: artifact([
+    ['_name', 'string'],
+    ['_token', 'address'],
+    ['_initialQuorumPercentage', 'uint256'],
+    ['_initialVoteExtension', 'uint48'],
+    ['_initialVotingDelay', 'uint48'],
+    ['_initialVotingPeriod', 'uint32'],
+    ['_initialProposalThreshold', 'uint256']
+  ])
+};
+
+/**
+ * Runs in a temporary project directory with the contract artifacts, a deploy config and a Deploy.s.sol broadcast
+ */
+const inProject = (run: (writeBroadcast: (timestamp: number, token?: string) => void) => void) => {
+  const cwd = process.cwd();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deployments-'));
+  const writeBroadcast = (timestamp: number, token = TOKEN) => {
+    const broadcast = path.join(dir, 'broadcast', 'Deploy.s.sol', String(CHAIN_ID));
+    fs.mkdirSync(broadcast, { recursive: true });
+    const creation = (hash: string, contractName: string, contractAddress: string, args: string[]) => ({
+      hash,
+      transactionType: 'CREATE',
+      contractName,
+      contractAddress: contractAddress.toLowerCase(),
+      arguments: args,
+      transaction: { from: DEPLOYER.toLowerCase() }
+    });
+    fs.writeFileSync(
+      path.join(broadcast, 'run-latest.json'),
+      JSON.stringify({
+        timestamp,
+        transactions: [
+          creation('0x01', 'UngovernableERC20', token, ['"Ungovernable"', '"UNG"', DEPLOYER]),
+          creation('0x02', 'UngovernableGovernor', GOVERNOR, ['"Ungovernable Governor"', token, '5', '172800', '86400', '604800', '0'])
+        ],
+        receipts: [{ transactionHash: '0x01', blockNumber: '0x10' }]
+      })
+    );
+  };
+
+  try {
+    for (const [contractName, artifact] of Object.entries(artifacts)) {
+      fs.mkdirSync(path.join(dir, 'out', `${contractName}.sol`), { recursive: true });
+      fs.writeFileSync(path.join(dir, 'out', `${contractName}.sol`, `${contractName}.json`), JSON.stringify(artifact));
+    }
+    fs.writeFileSync(path.join(dir, 'deploy.config.json'), '{}');
+    process.chdir(dir);
+    run(writeBroadcast);
+  } finally {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+test('records the latest broadcast under the token symbol and makes it active', () => {
+  inProject(writeBroadcast => {
+    writeBroadcast(1700000000);
+    const record = recordDeployment(CHAIN_ID, 'local');
+
+    assert.equal(record.name, 'ung-1700000000');
+    assert.equal(record.deployer, DEPLOYER);
+    assert.equal(record.compilerVersion, '0.8.28+commit.7893614a');
+    assert.deepEqual(
+      { address: record.contracts.token.address, blockNumber: record.contracts.token.blockNumber },
+      { address: TOKEN, blockNumber: 16 }
+    );
+    assert.equal(record.contracts.governor.blockNumber, null);
+    assert.equal(getActiveDeploymentName(CHAIN_ID), 'ung-1700000000');
+  });
+});
+
+test('reuses the record when the same contracts are recorded again', () => {
+  inProject(writeBroadcast => {
+    writeBroadcast(1700000000);
+    recordDeployment(CHAIN_ID, 'local');
+    writeBroadcast(1700000100);
+
+    assert.equal(recordDeployment(CHAIN_ID, 'local').name, 'ung-1700000000');
+    assert.equal(listDeployments(CHAIN_ID).length, 1);
+  });
+});
+
+test('records the contracts a salted run reused at their predicted addresses', () => {
+  inProject(() => {
+    const rawConfig = {
+      governor: {
+        _name: 'Ungovernable Governor',
+        _initialProposalThreshold: '0',
+        _initialQuorumPercentage: 5,
+        _initialVoteExtension: 172800,
+        _initialVotingDelay: 86400,
+        _initialVotingPeriod: 604800
+      },
+      token: { _name: 'Ungovernable', _symbol: 'UNG' },
+      salt: `0x${'11'.repeat(32)}`
+    };
+    fs.writeFileSync('deploy.config.json', JSON.stringify(rawConfig));
+    const prediction = predictDeployment(validateDeployConfig(rawConfig).config!, DEPLOYER, {
+      token: artifacts.UngovernableERC20,
+      governor: artifacts.UngovernableGovernor
+    });
+    fs.writeFileSync(
+      path.join('out', 'deployed.config.json'),
+      JSON.stringify({
+        token: { _address: prediction.token.address },
+        governor: { _address: prediction.governor.address },
+        metadata: { deployer: DEPLOYER }
+      })
+    );
+    const broadcast = path.join('broadcast', 'Deploy.s.sol', String(CHAIN_ID));
+    fs.mkdirSync(broadcast, { recursive: true });
+    fs.writeFileSync(path.join(broadcast, 'run-latest.json'), JSON.stringify({ timestamp: 1700000000, transactions: [], receipts: [] }));
+
+    const record = recordDeployment(CHAIN_ID, 'local');
+
+    assert.equal(record.name, 'ung-1700000000');
+    assert.equal(record.deployer, DEPLOYER);
+    assert.deepEqual(record.contracts.token, {
+      contractName: 'UngovernableERC20',
+      address: prediction.token.address,
+      blockNumber: null,
+      transactionHash: null,
+      constructorArgs: ['"Ungovernable"', '"UNG"', DEPLOYER]
+    });
+    assert.deepEqual(record.contracts.governor.constructorArgs, [
+      '"Ungovernable Governor"',
+      prediction.token.address,
+      '5',
+      '172800',
+      '86400',
+      '604800',
+      '0'
+    ]);
+  });
+});
+
+test('selects --deployment, then DEPLOYMENT, then the active deployment', () => {
+  const previous = process.env.DEPLOYMENT;
+  delete process.env.DEPLOYMENT;
+  try {
+    inProject(writeBroadcast => {
+      assert.throws(() => resolveDeployment(CHAIN_ID, []), /No deployment selected for chain ID 31337/);
+
+      writeBroadcast(1700000000);
+      recordDeployment(CHAIN_ID, 'local', 'first');
+      writeBroadcast(1700000100, '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0');
+      recordDeployment(CHAIN_ID, 'local', 'second');
+
+      assert.deepEqual(
+        listDeployments(CHAIN_ID).map(record => record.name),
+        ['first', 'second']
+      );
+      assert.equal(resolveDeployment(CHAIN_ID, []).name, 'second');
+
+      useDeployment(CHAIN_ID, 'first');
+      assert.equal(resolveDeployment(CHAIN_ID, []).name, 'first');
+
+      process.env.DEPLOYMENT = 'second';
+      assert.equal(resolveDeployment(CHAIN_ID, []).name, 'second');
+      assert.equal(resolveDeployment(CHAIN_ID, ['--deployment=first']).name, 'first');
+
+      assert.throws(() => resolveDeployment(CHAIN_ID, ['--deployment', 'third']), /"third" not found .* Available deployments: first, second/);
+    });
+  } finally {
+    if (previous === undefined) {
+      delete process.env.DEPLOYMENT;
+    } else {
+      process.env.DEPLOYMENT = previous;
+    }
+  }
+});
+
+test('reads --deployment in both forms', () => {
+  assert.equal(parseDeploymentArg(['node', 'script', '--deployment', 'dao-1']), 'dao-1');
+  assert.equal(parseDeploymentArg(['node', 'script', '--deployment=dao-2']), 'dao-2');
+});
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { distribute, DistributionState, parseBatchSize, readAllocations, reconcileSent, RecipientState } from '../../ts-scripts/distribute';
+
+const SENDER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+/**
+ * A provider stub with the sender's mined and pending nonces, the receipts it knows and the logs it returns
+ */
+const stubProvider = (chain: { latest: number; pending: number; receipts?: Record<string, object>; logs?: object[] }) =>
+  ({
+    getTransactionCount: async (_address: string, blockTag: string) => (blockTag === 'pending' ? chain.pending : chain.latest),
+    getTransactionReceipt: async (hash: string) => chain.receipts?.[hash] ?? null,
+    getLogs: async () => chain.logs ?? [],
+    waitForTransaction: async () => null
+  }) as unknown as ethers.Provider;
+
+const withState = async (recipients: Partial<RecipientState>[], run: (state: DistributionState, statePath: string) => Promise<void>) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'distribute-'));
+  const state: DistributionState = {
+    deployment: 'test',
+    chainId: 31337,
+    token: TOKEN,
+    sender: SENDER,
+    allocationFile: 'allocations.csv',
+    allocationHash: '0x',
+    recipients: recipients.map(recipient => ({ address: ALICE, amount: '100', balanceBefore: '0', status: 'pending', ...recipient }))
+  };
+  try {
+    await run(state, path.join(dir, 'state.json'));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+test('reads CSV allocations and rejects invalid rows', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'allocations-'));
+  try {
+    const valid = path.join(dir, 'valid.csv');
+    fs.writeFileSync(valid, `address,amount\n${ALICE},1.5\n${BOB},2\n`);
+    assert.deepEqual(readAllocations(valid, 18), [
+      { address: ALICE, amount: ethers.parseUnits('1.5', 18) },
+      { address: BOB, amount: ethers.parseUnits('2', 18) }
+    ]);
+
+    const invalid = path.join(dir, 'invalid.csv');
+    fs.writeFileSync(invalid, `address,amount\n${ALICE},0\n${ethers.ZeroAddress},1\n${BOB},1.5\n${BOB},2\n`);
+    assert.throws(() => readAllocations(invalid, 18), /greater than zero[\s\S]*zero address[\s\S]*different amounts/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('rejects an invalid --batch-size before connecting to the network', async () => {
+  assert.equal(parseBatchSize(['--batch-size', '5']), 5);
+  assert.throws(() => parseBatchSize(['--batch-size', '1.5']), /--batch-size must be a positive integer/);
+  await assert.rejects(distribute('allocations.csv', ['--batch-size', '0']), /--batch-size must be a positive integer/);
+});
+
+test('sends a mint again when its nonce never reached the node', async () => {
+  await withState([{ status: 'sending', nonce: 5, fromBlock: 100 }], async (state, statePath) => {
+    await reconcileSent(stubProvider({ latest: 5, pending: 5 }), state, statePath);
+
+    assert.equal(state.recipients[0].status, 'pending');
+    assert.equal(state.recipients[0].nonce, undefined);
+    assert.equal(JSON.parse(fs.readFileSync(statePath, 'utf8')).recipients[0].status, 'pending');
+  });
+});
+
+test('confirms a mint that was broadcast before its hash was saved', async () => {
+  const log = { transactionHash: '0xabc', blockNumber: 101, data: ethers.toBeHex(100, 32) };
+  await withState([{ status: 'sending', nonce: 5, fromBlock: 100 }], async (state, statePath) => {
+    await reconcileSent(stubProvider({ latest: 6, pending: 6, logs: [log] }), state, statePath);
+
+    assert.deepEqual(
+      { status: state.recipients[0].status, txHash: state.recipients[0].txHash, blockNumber: state.recipients[0].blockNumber },
+      { status: 'confirmed', txHash: '0xabc', blockNumber: 101 }
+    );
+  });
+});
+
+test('confirms a sent mint from its receipt', async () => {
+  await withState([{ status: 'sent', nonce: 5, txHash: '0xabc' }], async (state, statePath) => {
+    await reconcileSent(stubProvider({ latest: 6, pending: 6, receipts: { '0xabc': { status: 1, blockNumber: 101 } } }), state, statePath);
+
+    assert.equal(state.recipients[0].status, 'confirmed');
+  });
+});
+
+test('stops while a transaction with the nonce of an unsaved send is pending', async () => {
+  await withState([{ status: 'sending', nonce: 5, fromBlock: 100 }], async (state, statePath) => {
+    await assert.rejects(reconcileSent(stubProvider({ latest: 5, pending: 6 }), state, statePath), /nonce 5 .* is pending/);
+  });
+});
+
+test('stops when the sender sent transactions the state does not know about', async () => {
+  await withState([{ status: 'confirmed', nonce: 5, txHash: '0xabc' }, { address: BOB }], async (state, statePath) => {
+    await assert.rejects(reconcileSent(stubProvider({ latest: 7, pending: 7 }), state, statePath), /sent 1 transaction\(s\)/);
+  });
+
+  // Without any recorded nonce the start nonce is the reference
+  await withState([{}], async (state, statePath) => {
+    state.startNonce = 3;
+    await assert.rejects(reconcileSent(stubProvider({ latest: 4, pending: 4 }), state, statePath), /sent 1 transaction\(s\)/);
+  });
+});
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildDryRunReport, readDryRun } from '../../ts-scripts/dry-run-report';
+
+const DEPLOYER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const GOVERNOR = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+const writeDryRun = (transactions: unknown[]): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dry-run-'));
+  const file = path.join(dir, 'run-latest.json');
+  fs.writeFileSync(file, JSON.stringify({ transactions, receipts: [] }));
+  return file;
+};
+
+const creation = (contractName: string, contractAddress: string, gas: string) => ({
+  hash: null,
+  transactionType: 'CREATE',
+  contractName,
+  contractAddress: contractAddress.toLowerCase(),
+  function: null,
+  arguments: [],
+  transaction: { from: DEPLOYER.toLowerCase(), gas, value: '0x0', input: '0x60806040', nonce: '0x0' }
+});
+
+test('reads creations and calls from a dry-run file', () => {
+  const file = writeDryRun([
+    creation('UngovernableERC20', TOKEN, '0x2dc6c0'),
+    {
+      hash: null,
+      transactionType: 'CALL',
+      contractName: 'UngovernableERC20',
+      contractAddress: TOKEN,
+      function: 'transferOwnership(address)',
+      arguments: [GOVERNOR],
+      transaction: { from: DEPLOYER, to: TOKEN, gas: '0x7530', value: '0x0', input: '0xf2fde38b', nonce: '0x2' }
+    }
+  ]);
+
+  const [token, call] = readDryRun(file, 'Deploy.s.sol');
+
+  assert.equal(token.contractAddress, TOKEN);
+  assert.equal(token.from, DEPLOYER);
+  assert.equal(token.gas, 3000000n);
+  assert.equal(token.description, 'UngovernableERC20 CREATE');
+  assert.equal(call.contractAddress, null);
+  assert.equal(call.description, 'UngovernableERC20.transferOwnership(address)');
+});
+
+test('fails with DRY_RUN_NOT_FOUND when the simulation has not run', () => {
+  assert.throws(() => readDryRun(path.join(os.tmpdir(), 'missing', 'run-latest.json'), 'Deploy.s.sol'), { code: 'DRY_RUN_NOT_FOUND' });
+});
+
+test('prices every transaction and lists the predicted addresses', () => {
+  const file = writeDryRun([creation('UngovernableERC20', TOKEN, '0x0f4240'), creation('UngovernableGovernor', GOVERNOR, '0x1e8480')]);
+  const report = buildDryRunReport(readDryRun(file, 'Deploy.s.sol'), { baseFeePerGas: 10n, maxPriorityFeePerGas: 2n });
+
+  assert.equal(report.totalGas, 3000000n);
+  assert.equal(report.totalCost, 3000000n * 12n);
+  assert.equal(report.maxTotalCost, 3000000n * 22n);
+  assert.deepEqual(report.transactions.map(tx => tx.cost), [1000000n * 12n, 2000000n * 12n]);
+  assert.deepEqual(report.predictedAddresses, { UngovernableERC20: TOKEN, UngovernableGovernor: GOVERNOR });
+});
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createLaunchState, LAUNCH_STEPS, LaunchState, runSteps, selectSteps } from '../../ts-scripts/launch';
+import { resolveNetwork } from '../../ts-scripts/networks';
+
+const stateAfter = (...done: string[]) => {
+  const state = createLaunchState('sepolia', 11155111, '0x');
+  for (const step of done) {
+    state.steps[step as (typeof LAUNCH_STEPS)[number]].status = step === 'distribute' ? 'skipped' : 'done';
+  }
+  return state;
+};
+
+test('starts a new launch at the first step', () => {
+  assert.deepEqual(selectSteps(stateAfter(), []), [...LAUNCH_STEPS]);
+});
+
+test('resumes after the last finished or skipped step', () => {
+  const state = stateAfter('validate', 'deploy', 'record', 'verify', 'distribute');
+  state.steps.renounce.status = 'failed';
+
+  assert.deepEqual(selectSteps(state, []), ['renounce', 'publish', 'status']);
+  assert.deepEqual(selectSteps(stateAfter(...LAUNCH_STEPS), []), []);
+});
+
+test('re-runs steps with --from and --only', () => {
+  const state = stateAfter(...LAUNCH_STEPS);
+
+  assert.deepEqual(selectSteps(state, ['--from', 'publish']), ['publish', 'status']);
+  assert.deepEqual(selectSteps(state, ['--only=status,verify']), ['verify', 'status']);
+});
+
+test('records a broadcast deployment without deploying again', () => {
+  const state = stateAfter('validate', 'deploy');
+  state.steps.record.status = 'failed';
+
+  assert.deepEqual(selectSteps(state, []).slice(0, 2), ['record', 'verify']);
+});
+
+test('rejects unknown steps and --only with --from', () => {
+  assert.throws(() => selectSteps(stateAfter(), ['--from', 'mint']), { code: 'ARGUMENT_INVALID' });
+  assert.throws(() => selectSteps(stateAfter(), ['--only', 'verify', '--from', 'deploy']), /cannot be combined/);
+});
+
+test('saves a failed publish step instead of exiting', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'launch-'));
+  const saved = { ...process.env };
+  Object.assign(process.env, { CHAIN_ID: '31337', RPC_URL: 'http://127.0.0.1:1', DEPLOYMENT: 'launch-test-missing' });
+  delete process.env.NETWORK;
+  try {
+    const statePath = path.join(dir, 'state.json');
+    const state = stateAfter('validate', 'deploy', 'record', 'verify', 'distribute', 'renounce');
+
+    await assert.rejects(runSteps({ network: resolveNetwork([]), state, argv: [] }, ['publish', 'status'], statePath), {
+      code: 'DEPLOYMENT_NOT_FOUND'
+    });
+
+    const persisted: LaunchState = JSON.parse(fs.readFileSync(statePath, 'utf8'));
+    assert.equal(persisted.steps.publish.status, 'failed');
+    assert.match(persisted.steps.publish.error!, /launch-test-missing/);
+    assert.equal(persisted.steps.status.status, 'pending');
+  } finally {
+    process.env = saved;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,46 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  headers: http.IncomingHttpHeaders;
+  query: string;
+  variables: Record<string, any>;
+}
+
+export type MockResponder = (request: RecordedRequest) => { status?: number; body: unknown };
+
+export interface MockTallyServer {
+  url: string;
+  requests: RecordedRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts a local HTTP server that answers GraphQL POSTs with the given responder
+ */
+export async function startMockTallyServer(responder: MockResponder): Promise<MockTallyServer> {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const { query, variables } = JSON.parse(raw || '{}');
+      const recorded = { headers: req.headers, query, variables: variables || {} };
+      requests.push(recorded);
+
+      const { status = 200, body } = responder(recorded);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/query`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applyNetworkEnv, broadcastDir, getNetwork, loadNetworks, parseNetworkArg, resolveNetwork } from '../../ts-scripts/networks';
+
+const NETWORK_VARS = ['NETWORK', 'CHAIN_ID', 'RPC_URL', 'SEPOLIA_RPC_URL', 'ETHERSCAN_API_KEY', 'EXPLORER_API_URL', 'VERIFIERS'];
+
+const withEnv = (env: Record<string, string>, run: () => void) => {
+  const previous = { ...process.env };
+  for (const key of NETWORK_VARS) {
+    delete process.env[key];
+  }
+  Object.assign(process.env, env);
+  try {
+    run();
+  } finally {
+    process.env = previous;
+  }
+};
+
+const withConfig = (config: object, run: (configPath: string) => void) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'networks-'));
+  try {
+    const configPath = path.join(dir, 'networks.config.json');
+    fs.writeFileSync(configPath, JSON.stringify(config));
+    run(configPath);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+test('loads profiles and rejects invalid ones', () => {
+  withConfig({ local: { chainId: 31337, rpcUrlEnv: 'LOCAL_RPC_URL' } }, configPath => {
+    assert.deepEqual(loadNetworks(configPath), [{ name: 'local', chainId: 31337, rpcUrlEnv: 'LOCAL_RPC_URL', tally: false }]);
+    assert.throws(() => getNetwork('sepolia', configPath), /Unknown network "sepolia". Available networks: local/);
+  });
+  withConfig({ broken: { chainId: '1', rpcUrlEnv: 'RPC_URL' } }, configPath => {
+    assert.throws(() => loadNetworks(configPath), /"broken" .* invalid chainId/);
+  });
+  assert.deepEqual(loadNetworks(path.join(os.tmpdir(), 'missing-networks.config.json')), []);
+});
+
+test('reads --network in both forms', () => {
+  assert.equal(parseNetworkArg(['node', 'script', '--network', 'sepolia']), 'sepolia');
+  assert.equal(parseNetworkArg(['node', 'script', '--network=mainnet']), 'mainnet');
+  assert.equal(parseNetworkArg(['node', 'script']), undefined);
+});
+
+test('resolves a profile and exports its env for forge', () => {
+  withEnv({ SEPOLIA_RPC_URL: 'https://sepolia.example', ETHERSCAN_API_KEY: 'key' }, () => {
+    const network = resolveNetwork(['node', 'script', '--network', 'sepolia']);
+
+    assert.equal(network.chainId, 11155111);
+    assert.equal(network.rpcUrl, 'https://sepolia.example');
+    assert.equal(network.explorerApiKey, 'key');
+    assert.equal(process.env.CHAIN_ID, '11155111');
+    assert.equal(process.env.RPC_URL, 'https://sepolia.example');
+    assert.equal(process.env.NETWORK, 'sepolia');
+    // forge picks the Etherscan V2 endpoint itself
+    assert.equal(process.env.EXPLORER_API_URL, undefined);
+  });
+});
+
+test('does not pass ETHERSCAN_API_KEY to an explorer with its own unset key', () => {
+  withEnv({ ETHERSCAN_API_KEY: 'mainnet-key' }, () => {
+    applyNetworkEnv({
+      name: 'other',
+      chainId: 10,
+      rpcUrlEnv: 'OTHER_RPC_URL',
+      rpcUrl: 'https://other.example',
+      explorerApiUrl: 'https://explorer.other.example/api',
+      explorerApiKeyEnv: 'OTHER_API_KEY',
+      tally: false
+    });
+
+    assert.equal(process.env.ETHERSCAN_API_KEY, undefined);
+    assert.equal(process.env.EXPLORER_API_URL, 'https://explorer.other.example/api');
+  });
+});
+
+test('fails when the profile RPC variable is not set', () => {
+  withEnv({ NETWORK: 'sepolia' }, () => {
+    assert.throws(() => resolveNetwork(['node', 'script']), /SEPOLIA_RPC_URL environment variable is not set/);
+  });
+});
+
+test('falls back to CHAIN_ID and RPC_URL without a network', () => {
+  withEnv({ CHAIN_ID: '31337', RPC_URL: 'http://127.0.0.1:8545' }, () => {
+    const network = resolveNetwork(['node', 'script']);
+
+    assert.equal(network.name, 'chain-31337');
+    assert.equal(network.rpcUrl, 'http://127.0.0.1:8545');
+  });
+  withEnv({}, () => {
+    assert.throws(() => resolveNetwork(['node', 'script']), /CHAIN_ID environment variable is not set/);
+  });
+});
+
+test('puts broadcasts under the script and chain', () => {
+  assert.equal(broadcastDir(1), path.join(process.cwd(), 'broadcast', 'Deploy.s.sol', '1'));
+  assert.equal(broadcastDir('1', 'RenounceToGovernance.s.sol'), path.join(process.cwd(), 'broadcast', 'RenounceToGovernance.s.sol', '1'));
+});
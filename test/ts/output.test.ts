@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { classifyError, CommandError, EXIT_CODES, isJsonOutput } from '../../ts-scripts/output';
+import { TallyApiError } from '../../ts-scripts/tally-client';
+
+test('gives every failure class its own exit code', () => {
+  const codes = Object.values(EXIT_CODES);
+  assert.equal(new Set(codes).size, codes.length);
+});
+
+test('keeps the class and code of command errors', () => {
+  const { failure, error } = classifyError(new CommandError('notFound', 'DEPLOYMENT_NOT_FOUND', 'No deployment selected'));
+
+  assert.equal(failure, 'notFound');
+  assert.deepEqual(error, { code: 'DEPLOYMENT_NOT_FOUND', message: 'No deployment selected' });
+});
+
+test('maps Tally API errors by kind', () => {
+  assert.equal(classifyError(new TallyApiError('not-found', 'missing')).failure, 'notFound');
+  assert.equal(classifyError(new TallyApiError('auth-expired', 'expired')).failure, 'rejected');
+  assert.equal(classifyError(new TallyApiError('rate-limited', 'slow down')).failure, 'unavailable');
+  assert.equal(classifyError(new TallyApiError('already-exists', 'taken')).error.code, 'TALLY_ALREADY_EXISTS');
+});
+
+test('treats unreachable RPC nodes as unavailable and anything else as unexpected', () => {
+  assert.equal(classifyError(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' })).failure, 'unavailable');
+  assert.equal(classifyError(new Error('boom')).failure, 'error');
+});
+
+test('turns on --json from the flag or from the CLI', () => {
+  const previous = process.env.JSON_OUTPUT;
+  try {
+    delete process.env.JSON_OUTPUT;
+    assert.equal(isJsonOutput(['node', 'script', '--json']), true);
+    assert.equal(isJsonOutput(['node', 'script']), false);
+    process.env.JSON_OUTPUT = 'true';
+    assert.equal(isJsonOutput(['node', 'script']), true);
+  } finally {
+    if (previous === undefined) {
+      delete process.env.JSON_OUTPUT;
+    } else {
+      process.env.JSON_OUTPUT = previous;
+    }
+  }
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { ContractArtifact } from '../../ts-scripts/artifacts';
+import { predictContract, predictDeployment } from '../../ts-scripts/predict';
+import { DeployConfig, validateDeployConfig } from '../../ts-scripts/validate-config';
+
+const artifact = (inputs: string[]): ContractArtifact => ({
+  abi: [{ type: 'constructor', stateMutability: 'nonpayable', inputs: inputs.map((type, i) => ({ name: `arg${i}`, type })) }],
+  bytecode: { object: '0x6080604052' },
+  metadata: { compiler: { version: '0.8.26' } }
+});
+
+const artifacts = {
+  token: artifact(['string', 'string', 'address']),
+  governor: artifact(['string', 'address', 'uint256', 'uint48', 'uint48', 'uint32', 'uint256'])
+};
+
+const config: DeployConfig = {
+  governor: {
+    _initialProposalThreshold: 10n ** 25n,
+    _initialQuorumPercentage: 5,
+    _initialVoteExtension: 172800,
+    _initialVotingDelay: 86400,
+    _initialVotingPeriod: 604800,
+    _name: 'Ungovernable Governor'
+  },
+  token: { _name: 'Ungovernable', _symbol: 'ABC' },
+  salt: ethers.id('ungovernable')
+};
+
+const DEPLOYER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+test('matches the EIP-1014 example address', () => {
+  const empty: ContractArtifact = { abi: [], bytecode: { object: '0x00' }, metadata: { compiler: { version: '' } } };
+  const predicted = predictContract('Example', empty, [], ethers.ZeroHash, ethers.ZeroAddress);
+
+  assert.equal(predicted.address, '0x4D1A2e2bB4F88F0250f26Ffff098B0b30B26BF38');
+});
+
+test('builds the governor on the predicted token address', () => {
+  const prediction = predictDeployment(config, DEPLOYER, artifacts);
+
+  assert.equal(prediction.governor.constructorArgs[1], prediction.token.address);
+  assert.deepEqual(prediction.token.constructorArgs, ['Ungovernable', 'ABC', DEPLOYER]);
+});
+
+test('is deterministic and depends on the salt and the deployer', () => {
+  const first = predictDeployment(config, DEPLOYER, artifacts);
+
+  assert.deepEqual(predictDeployment(config, DEPLOYER, artifacts), first);
+  assert.notEqual(predictDeployment({ ...config, salt: ethers.id('other') }, DEPLOYER, artifacts).token.address, first.token.address);
+  assert.notEqual(predictDeployment(config, ethers.ZeroAddress, artifacts).token.address, first.token.address);
+});
+
+test('requires a salt', () => {
+  assert.throws(() => predictDeployment({ ...config, salt: undefined }, DEPLOYER, artifacts), /no "salt"/);
+});
+
+test('validates the salt in deploy.config.json', () => {
+  const raw = {
+    governor: { ...config.governor, _initialProposalThreshold: '10000000000000000000000000' },
+    token: config.token
+  };
+
+  assert.equal(validateDeployConfig({ ...raw, salt: config.salt }).config?.salt, config.salt);
+  assert.deepEqual(validateDeployConfig({ ...raw, salt: '0x1234' }).errors.map(error => error.path), ['salt']);
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DeploymentRecord } from '../../ts-scripts/deployments';
+import { checkDeploymentRecord, LiveSettings } from '../../ts-scripts/preflight-renounce';
+
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const OTHER_TOKEN = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+const deployment = { contracts: { token: { address: TOKEN } } } as unknown as DeploymentRecord;
+
+const recordedToken = { _name: 'Ungovernable', _symbol: 'UNG' };
+
+const recordedGovernor = {
+  _name: 'Ungovernable Governor',
+  _token: TOKEN,
+  _initialQuorumPercentage: 5n,
+  _initialVoteExtension: 172800n,
+  _initialVotingDelay: 86400n,
+  _initialVotingPeriod: 604800n,
+  _initialProposalThreshold: 10n ** 25n
+};
+
+const live: LiveSettings = {
+  tokenName: 'Ungovernable',
+  tokenSymbol: 'UNG',
+  governorName: 'Ungovernable Governor',
+  governorToken: TOKEN,
+  proposalThreshold: 10n ** 25n,
+  quorumNumerator: 5n,
+  votingDelay: 86400n,
+  votingPeriod: 604800n,
+  lateQuorumVoteExtension: 172800n
+};
+
+test('passes when the live contracts match the recorded constructor arguments', () => {
+  assert.deepEqual(
+    checkDeploymentRecord(deployment, recordedToken, recordedGovernor, live).filter(c => c.status !== 'pass'),
+    []
+  );
+});
+
+test('fails on settings that differ from the record, including thresholds above 2^53', () => {
+  const failed = checkDeploymentRecord(deployment, recordedToken, { ...recordedGovernor, _token: OTHER_TOKEN }, {
+    ...live,
+    tokenSymbol: 'GOV',
+    proposalThreshold: 10n ** 25n + 1n
+  }).filter(c => c.status === 'fail');
+
+  assert.deepEqual(
+    failed.map(c => c.label),
+    [
+      'Governor was deployed with the recorded token',
+      'token.symbol() matches the deployment record',
+      'governor.proposalThreshold() matches the deployment record'
+    ]
+  );
+  assert.equal(failed[2].detail, 'record has 10000000000000000000000000, contract returns 10000000000000000000000001');
+});
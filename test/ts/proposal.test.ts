@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { encodeAction, hashProposal, loadProposal, parseVoteSupport } from '../../ts-scripts/proposal';
+
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+// setWhitelist(ALICE, true)
+const WHITELIST_ALICE =
+  '0x53d6fd5900000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c80000000000000000000000000000000000000000000000000000000000000001';
+
+test('encodes signature, calldata and plain transfer actions', () => {
+  assert.deepEqual(encodeAction({ target: TOKEN.toLowerCase(), signature: 'function setWhitelist(address,bool)', args: [ALICE, true] }, 0), {
+    target: TOKEN,
+    value: 0n,
+    calldata: WHITELIST_ALICE
+  });
+  assert.deepEqual(encodeAction({ target: TOKEN, calldata: '0x1234', value: '5' }, 0), { target: TOKEN, value: 5n, calldata: '0x1234' });
+  assert.deepEqual(encodeAction({ target: ALICE, value: 10 }, 0), { target: ALICE, value: 10n, calldata: '0x' });
+});
+
+test('rejects malformed actions', () => {
+  assert.throws(() => encodeAction({ target: '0x1234' }, 2), /actions\[2\]\.target must be an address/);
+  assert.throws(() => encodeAction({ target: TOKEN, value: '1.5' }, 0), /whole number of wei/);
+  assert.throws(() => encodeAction({ target: TOKEN, calldata: '0x', signature: 'pause()' }, 0), /either calldata or signature/);
+  assert.throws(() => encodeAction({ target: TOKEN, calldata: 'abcd' }, 0), /0x-prefixed hex/);
+});
+
+test('hashes a proposal like Governor.hashProposal', () => {
+  const descriptionHash = ethers.id('# Whitelist Alice');
+
+  assert.equal(
+    hashProposal([TOKEN], [0n], [WHITELIST_ALICE], descriptionHash),
+    11437869161721017845753143461276228978624200122773712393825504767491385553874n
+  );
+  assert.notEqual(hashProposal([TOKEN], [1n], [WHITELIST_ALICE], descriptionHash), hashProposal([TOKEN], [0n], [WHITELIST_ALICE], descriptionHash));
+});
+
+test('loads a YAML proposal with its description file', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proposal-'));
+  try {
+    fs.writeFileSync(path.join(dir, 'description.md'), '# Whitelist Alice');
+    fs.writeFileSync(
+      path.join(dir, 'proposal.yaml'),
+      `descriptionFile: ./description.md\nactions:\n  - target: "${TOKEN}"\n    signature: "setWhitelist(address,bool)"\n    args: ["${ALICE}", true]\n`
+    );
+
+    const proposal = loadProposal(path.join(dir, 'proposal.yaml'));
+
+    assert.deepEqual(proposal.calldatas, [WHITELIST_ALICE]);
+    assert.equal(proposal.descriptionHash, ethers.id('# Whitelist Alice'));
+    assert.equal(proposal.proposalId, hashProposal([TOKEN], [0n], [WHITELIST_ALICE], proposal.descriptionHash));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('accepts only for, against and abstain as votes', () => {
+  assert.deepEqual(['against', 'FOR', 'abstain'].map(parseVoteSupport), [0, 1, 2]);
+  for (const name of ['constructor', 'toString', '__proto__', 'yes', undefined]) {
+    assert.throws(() => parseVoteSupport(name), { code: 'ARGUMENT_INVALID' });
+  }
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { checkDaoExistence } from '../../ts-scripts/publish-tally';
+import { TallyClient } from '../../ts-scripts/tally-client';
+import { MockResponder, startMockTallyServer } from './mock-tally-server';
+
+const GOVERNOR = '0x0000000000000000000000000000000000000001';
+const organization = { id: '2206072050315953936', name: 'Ungovernable DAO', slug: 'ungovernable-dao' };
+
+async function check(responder: MockResponder) {
+  const server = await startMockTallyServer(responder);
+  try {
+    const client = new TallyClient({ apiKey: 'key', endpoint: server.url });
+    const existence = await checkDaoExistence(client, GOVERNOR, 11155111);
+    return { existence, queries: server.requests.map(request => request.query) };
+  } finally {
+    await server.close();
+  }
+}
+
+const assertReadOnly = (queries: string[]) => {
+  assert.ok(queries.length > 0);
+  for (const query of queries) {
+    assert.doesNotMatch(query, /mutation/);
+  }
+};
+
+test('reports exists when the governor query finds the governor', async () => {
+  const { existence, queries } = await check(() => ({
+    body: { data: { governor: { id: `eip155:11155111:${GOVERNOR}`, organization } } }
+  }));
+
+  assert.equal(existence.state, 'exists');
+  assert.deepEqual(existence.organization, organization);
+  assert.equal(queries.length, 1);
+  assertReadOnly(queries);
+});
+
+test('falls back to the organizations search', async () => {
+  const { existence, queries } = await check(request =>
+    request.query.includes('organizations')
+      ? { body: { data: { organizations: [{ ...organization, governors: [] }] } } }
+      : { body: { data: { governor: null } } }
+  );
+
+  assert.equal(existence.state, 'exists');
+  assert.equal(existence.organization?.slug, organization.slug);
+  assertReadOnly(queries);
+});
+
+test('reports missing only when both queries succeed without a match', async () => {
+  const { existence, queries } = await check(request =>
+    request.query.includes('organizations')
+      ? { body: { data: { organizations: [] } } }
+      : { status: 404, body: { errors: [{ message: 'governor not found', extensions: { code: 'NOT_FOUND' } }] } }
+  );
+
+  assert.equal(existence.state, 'missing');
+  assert.deepEqual(existence.errors, []);
+  assert.equal(queries.length, 2);
+  assertReadOnly(queries);
+});
+
+test('reports unknown instead of missing when a query fails', async () => {
+  const { existence, queries } = await check(request =>
+    request.query.includes('organizations')
+      ? { status: 500, body: { errors: [{ message: 'internal server error' }] } }
+      : { body: { data: { governor: null } } }
+  );
+
+  assert.equal(existence.state, 'unknown');
+  assert.equal(existence.organization, null);
+  assert.equal(existence.errors.length, 1);
+  assert.match(existence.errors[0], /organizations query/);
+  assertReadOnly(queries);
+});
@@ -0,0 +1,167 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { forgeScript } from '../../ts-scripts/forge';
+import { createSigner, forgeSignerArgs, getSigner, loadSignerConfig } from '../../ts-scripts/signer';
+
+// The standard test mnemonic used by anvil and hardhat
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const ANVIL_ACCOUNT_0 = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const ANVIL_ACCOUNT_1 = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const withTempDir = async (run: (dir: string) => Promise<void>) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'signer-'));
+  try {
+    await run(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+test('requires the variables of the selected backend', () => {
+  assert.throws(() => loadSignerConfig({ SIGNER: 'keystore' }), /KEYSTORE_PATH/);
+  assert.throws(() => loadSignerConfig({ SIGNER: 'ledger' }), /Unknown SIGNER/);
+  assert.equal(loadSignerConfig({ PRIVATE_KEY: '0x01' }).backend, 'private-key');
+});
+
+test('derives the mnemonic wallet at the configured path', async () => {
+  await withTempDir(async dir => {
+    const file = path.join(dir, 'mnemonic.txt');
+    fs.writeFileSync(file, `${MNEMONIC}\n`);
+
+    const first = await createSigner(loadSignerConfig({ SIGNER: 'mnemonic', MNEMONIC_FILE: file }));
+    const second = await createSigner(loadSignerConfig({ SIGNER: 'mnemonic', MNEMONIC_FILE: file, MNEMONIC_PATH: "m/44'/60'/0'/0/1" }));
+
+    assert.equal(await first.getAddress(), ANVIL_ACCOUNT_0);
+    assert.equal(await second.getAddress(), ANVIL_ACCOUNT_1);
+  });
+});
+
+test('decrypts a keystore with the password file and passes it to forge', async () => {
+  await withTempDir(async dir => {
+    const wallet = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)));
+    const keystore = path.join(dir, 'keystore.json');
+    const passwordFile = path.join(dir, 'password');
+    fs.writeFileSync(keystore, ethers.encryptKeystoreJsonSync({ address: wallet.address, privateKey: wallet.privateKey }, 'secret', { scrypt: { N: 1 << 10 } }));
+    fs.writeFileSync(passwordFile, 'secret\n');
+
+    const config = loadSignerConfig({ SIGNER: 'keystore', KEYSTORE_PATH: keystore, KEYSTORE_PASSWORD_FILE: passwordFile });
+    assert.equal(await (await createSigner(config)).getAddress(), wallet.address);
+    assert.deepEqual(await forgeSignerArgs(config), ['--keystore', keystore, '--password-file', passwordFile]);
+  });
+});
+
+/**
+ * Serves eth_accounts and personal_sign for `wallet`, like an unlocked anvil account
+ */
+const withRpcSigner = async (wallet: ethers.HDNodeWallet, run: (url: string, methods: string[]) => Promise<void>) => {
+  const methods: string[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', async () => {
+      const payload = JSON.parse(raw);
+      const answer = async ({ id, method, params }: any) => {
+        methods.push(method);
+        const results: Record<string, () => Promise<unknown> | unknown> = {
+          eth_chainId: () => '0x7a69',
+          eth_accounts: () => [wallet.address.toLowerCase()],
+          personal_sign: () => wallet.signMessage(ethers.getBytes(params[0]))
+        };
+        return { jsonrpc: '2.0', id, result: await results[method]() };
+      };
+      const body = Array.isArray(payload) ? await Promise.all(payload.map(answer)) : await answer(payload);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, methods);
+  } finally {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+};
+
+const withEnv = async (env: Record<string, string>, run: () => Promise<void>) => {
+  const saved = { ...process.env };
+  Object.assign(process.env, env);
+  try {
+    await run();
+  } finally {
+    process.env = saved;
+  }
+};
+
+test('signs SIWE messages with personal_sign on a JSON-RPC signer', async () => {
+  const wallet = ethers.HDNodeWallet.fromPhrase(MNEMONIC);
+  await withRpcSigner(wallet, async (url, methods) => {
+    const config = loadSignerConfig({ SIGNER: 'rpc', SIGNER_RPC_URL: url });
+    const signer = await createSigner(config);
+    const signature = await signer.signMessage('Sign in with Ethereum');
+
+    assert.equal(ethers.verifyMessage('Sign in with Ethereum', signature), wallet.address);
+    assert.ok(methods.includes('personal_sign'));
+    assert.deepEqual(await forgeSignerArgs(config), ['--rpc-url', url, '--unlocked', '--sender', wallet.address]);
+    (signer.provider as ethers.JsonRpcProvider).destroy();
+  });
+});
+
+test('connects a JSON-RPC signer to the network provider for nonces', async () => {
+  const wallet = ethers.HDNodeWallet.fromPhrase(MNEMONIC);
+  await withRpcSigner(wallet, async url => {
+    await withEnv({ SIGNER: 'rpc', SIGNER_RPC_URL: url }, async () => {
+      const counted: string[] = [];
+      const provider = {
+        getTransactionCount: async (address: string) => {
+          counted.push(address);
+          return 7;
+        }
+      } as unknown as ethers.Provider;
+
+      const signer = await getSigner(provider);
+      assert.equal(signer.provider, provider);
+      assert.equal(await signer.getNonce('pending'), 7);
+      assert.deepEqual(counted, [wallet.address]);
+      assert.equal(ethers.verifyMessage('hello', await signer.signMessage('hello')), wallet.address);
+      ((signer as any).endpoint.provider as ethers.JsonRpcProvider).destroy();
+    });
+  });
+});
+
+test('runs forge against the JSON-RPC signer endpoint instead of RPC_URL', async () => {
+  const wallet = ethers.HDNodeWallet.fromPhrase(MNEMONIC);
+  await withRpcSigner(wallet, async url => {
+    await withTempDir(async dir => {
+      // Stands in for forge and records the arguments it was called with
+      const argsFile = path.join(dir, 'args.json');
+      fs.writeFileSync(
+        path.join(dir, 'forge'),
+        `#!/usr/bin/env node\nrequire('fs').writeFileSync(${JSON.stringify(argsFile)}, JSON.stringify(process.argv.slice(2)));\n`,
+        { mode: 0o755 }
+      );
+
+      const env = { SIGNER: 'rpc', SIGNER_RPC_URL: url, RPC_URL: 'http://127.0.0.1:1', CHAIN_ID: '31337', PATH: `${dir}${path.delimiter}${process.env.PATH}` };
+      await withEnv(env, () => forgeScript('script/Deploy.s.sol:DeployScript', ['--broadcast']));
+
+      assert.deepEqual(JSON.parse(fs.readFileSync(argsFile, 'utf8')), [
+        'script',
+        'script/Deploy.s.sol:DeployScript',
+        '--chain-id',
+        '31337',
+        '--rpc-url',
+        url,
+        '--unlocked',
+        '--sender',
+        wallet.address,
+        '--broadcast'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildSiweMessage, parseSiweMessage, SiweError, SiweMessage } from '../../ts-scripts/siwe';
+import { createSiweMessage } from '../../ts-scripts/tally-auth';
+
+const NOW = Date.parse('2024-05-01T12:00:00.000Z');
+
+const message: SiweMessage = {
+  domain: 'www.tally.xyz',
+  address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  statement: 'Sign in with Ethereum to Tally',
+  uri: 'https://www.tally.xyz/',
+  version: '1',
+  chainId: 1,
+  nonce: 'a1b2c3d4e5f6',
+  issuedAt: '2024-05-01T11:59:00.000Z',
+  expirationTime: '2024-05-01T12:10:00.000Z',
+  requestId: 'publish-42',
+  resources: ['https://www.tally.xyz/terms', 'ipfs://bafybeigdyrzt']
+};
+
+test('builds the EIP-4361 layout', () => {
+  assert.equal(
+    buildSiweMessage(message, NOW),
+    [
+      'www.tally.xyz wants you to sign in with your Ethereum account:',
+      '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      '',
+      'Sign in with Ethereum to Tally',
+      '',
+      'URI: https://www.tally.xyz/',
+      'Version: 1',
+      'Chain ID: 1',
+      'Nonce: a1b2c3d4e5f6',
+      'Issued At: 2024-05-01T11:59:00.000Z',
+      'Expiration Time: 2024-05-01T12:10:00.000Z',
+      'Request ID: publish-42',
+      'Resources:',
+      '- https://www.tally.xyz/terms',
+      '- ipfs://bafybeigdyrzt'
+    ].join('\n')
+  );
+});
+
+test('parses its own output back into the same fields', () => {
+  assert.deepEqual(parseSiweMessage(buildSiweMessage(message, NOW)), message);
+
+  const { statement, expirationTime, requestId, resources, ...minimal } = message;
+  assert.deepEqual(parseSiweMessage(buildSiweMessage(minimal, NOW)), minimal);
+});
+
+test('rejects invalid fields', () => {
+  const rejects = (overrides: Partial<SiweMessage>, pattern: RegExp) =>
+    assert.throws(() => buildSiweMessage({ ...message, ...overrides }, NOW), (error: unknown) => error instanceof SiweError && pattern.test(error.message));
+
+  rejects({ address: message.address.toLowerCase() }, /checksummed/);
+  rejects({ domain: 'https://www.tally.xyz' }, /Domain/);
+  rejects({ nonce: 'short' }, /Nonce/);
+  rejects({ chainId: 0 }, /Chain ID/);
+  rejects({ issuedAt: 'yesterday' }, /RFC 3339/);
+  rejects({ statement: 'two\nlines' }, /Statement/);
+  rejects({ resources: ['not a uri'] }, /Resource/);
+});
+
+test('refuses to build a Tally login message whose nonce has expired', () => {
+  const nonce = {
+    nonce: 'a1b2c3d4e5f6',
+    nonceToken: 'token',
+    issuedAt: new Date(Date.now() - 20 * 60_000).toISOString(),
+    expirationTime: new Date(Date.now() - 10 * 60_000).toISOString()
+  };
+  assert.throws(() => createSiweMessage(nonce, message.address.toLowerCase()), /already passed/);
+});
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { ContractDeployment } from '../../ts-scripts/deployments';
+import { findCodeDeploymentBlock, resolveStartBlock } from '../../ts-scripts/start-block';
+
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const CREATION_TX = '0x' + 'ab'.repeat(32);
+
+/**
+ * A provider stub on which TOKEN has code from `deployedAt` on, counting eth_getCode calls
+ */
+const stubProvider = (chain: { latest: number; deployedAt?: number; receipt?: object | null; archive?: boolean }) => {
+  const calls = { getCode: 0 };
+  const provider = {
+    getBlockNumber: async () => chain.latest,
+    getCode: async (_address: string, blockTag: number) => {
+      calls.getCode++;
+      if (chain.archive === false && blockTag < chain.latest) {
+        throw new Error('missing trie node');
+      }
+      return chain.deployedAt !== undefined && blockTag >= chain.deployedAt ? '0x6080' : '0x';
+    },
+    getTransactionReceipt: async () => chain.receipt ?? null
+  } as unknown as ethers.Provider;
+  return { provider, calls };
+};
+
+const token = (blockNumber: number | null = null): ContractDeployment => ({
+  contractName: 'UngovernableERC20',
+  address: TOKEN,
+  blockNumber,
+  transactionHash: CREATION_TX,
+  constructorArgs: []
+});
+
+test('binary-searches eth_getCode for the creation block', async () => {
+  for (const deployedAt of [0, 1, 4_999_999, 5_000_000, 8_182_742]) {
+    const { provider, calls } = stubProvider({ latest: 10_000_000, deployedAt });
+
+    assert.equal(await findCodeDeploymentBlock(provider, TOKEN), deployedAt);
+    assert.ok(calls.getCode <= 25, `${calls.getCode} eth_getCode calls`);
+  }
+  assert.equal(await findCodeDeploymentBlock(stubProvider({ latest: 100 }).provider, TOKEN), null);
+});
+
+test('prefers the recorded block, then the broadcast receipts', async () => {
+  const { provider } = stubProvider({ latest: 100, deployedAt: 42 });
+  assert.deepEqual(await resolveStartBlock(provider, token(7)), { blockNumber: 7, source: 'record' });
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'start-block-'));
+  try {
+    const broadcastFile = path.join(dir, 'run-latest.json');
+    fs.writeFileSync(broadcastFile, JSON.stringify({ receipts: [{ transactionHash: '0x' + 'AB'.repeat(32), blockNumber: '0x29' }] }));
+
+    assert.deepEqual(await resolveStartBlock(provider, token(), broadcastFile), { blockNumber: 41, source: 'broadcast-receipt' });
+    assert.deepEqual(await resolveStartBlock(provider, token(), path.join(dir, 'missing.json')), { blockNumber: 42, source: 'code-search' });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('uses the creation receipt only when it created the contract', async () => {
+  const created = stubProvider({ latest: 100, deployedAt: 42, receipt: { contractAddress: TOKEN.toLowerCase(), blockNumber: 40 } });
+  assert.deepEqual(await resolveStartBlock(created.provider, token()), { blockNumber: 40, source: 'rpc-receipt' });
+
+  // A CREATE2 factory call has no contractAddress, so the code search finds the block
+  const viaFactory = stubProvider({ latest: 100, deployedAt: 42, receipt: { contractAddress: null, blockNumber: 40 } });
+  assert.deepEqual(await resolveStartBlock(viaFactory.provider, token()), { blockNumber: 42, source: 'code-search' });
+});
+
+test('fails instead of guessing when nothing finds the block', async () => {
+  const { provider } = stubProvider({ latest: 100, deployedAt: 42, archive: false });
+
+  await assert.rejects(resolveStartBlock(provider, token()), /Could not determine the deployment block of UngovernableERC20 .* Add "blockNumber"/);
+});
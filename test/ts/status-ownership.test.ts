@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { DeploymentRecord } from '../../ts-scripts/deployments';
+import { OnChainState, ownershipChecks } from '../../ts-scripts/status-ownership';
+import { DeployConfig } from '../../ts-scripts/validate-config';
+
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const GOVERNOR = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+const deployment = {
+  name: 'dao-1',
+  contracts: {
+    token: { address: TOKEN },
+    governor: { address: GOVERNOR }
+  }
+} as unknown as DeploymentRecord;
+
+const recordedToken = { _name: 'Ungovernable', _symbol: 'UNG', _owner: GOVERNOR };
+
+const recordedGovernor = {
+  _name: 'Ungovernable Governor',
+  _token: TOKEN,
+  _initialQuorumPercentage: 5n,
+  _initialVoteExtension: 172800n,
+  _initialVotingDelay: 86400n,
+  _initialVotingPeriod: 604800n,
+  _initialProposalThreshold: 10n ** 25n
+};
+
+const config: DeployConfig = {
+  governor: {
+    _name: 'Ungovernable Governor',
+    _initialQuorumPercentage: 5,
+    _initialVoteExtension: 172800,
+    _initialVotingDelay: 86400,
+    _initialVotingPeriod: 604800,
+    _initialProposalThreshold: 10n ** 25n
+  },
+  token: { _name: 'Ungovernable', _symbol: 'UNG' }
+};
+
+const handedOver: OnChainState = {
+  owner: ethers.ZeroAddress,
+  adminRole: 1n,
+  governorRoles: 1n,
+  isTransferPaused: true,
+  tokenName: 'Ungovernable',
+  tokenSymbol: 'UNG',
+  governorName: 'Ungovernable Governor',
+  votingDelay: 86400n,
+  votingPeriod: 604800n,
+  proposalThreshold: 10n ** 25n,
+  quorumNumerator: 5n,
+  lateQuorumVoteExtension: 172800n,
+  clockMode: 'mode=timestamp',
+  governorToken: TOKEN
+};
+
+const failedChecks = (state: OnChainState, expectedConfig = config) =>
+  ownershipChecks(deployment, recordedToken, recordedGovernor, expectedConfig, state)
+    .filter(check => !check.pass)
+    .map(check => check.name);
+
+test('passes when the chain matches the deployment record and deploy.config.json', () => {
+  assert.deepEqual(failedChecks(handedOver), []);
+});
+
+test('compares governor settings with the recorded constructor arguments', () => {
+  assert.deepEqual(failedChecks({ ...handedOver, votingPeriod: 3600n, quorumNumerator: 4n }), [
+    'governor.votingPeriod() matches the deployment record',
+    'governor.quorumNumerator() matches the deployment record',
+    'governor.votingPeriod() matches deploy.config.json',
+    'governor.quorumNumerator() matches deploy.config.json'
+  ]);
+});
+
+test('compares each setting with deploy.config.json separately from the record', () => {
+  const changed = {
+    governor: { ...config.governor, _initialVotingDelay: 3600 },
+    token: { ...config.token, _symbol: 'NEW' }
+  };
+  assert.deepEqual(failedChecks(handedOver, changed), [
+    'token.symbol() matches deploy.config.json',
+    'governor.votingDelay() matches deploy.config.json'
+  ]);
+});
+
+test('fails while the token still has an owner or the governor lacks the admin role', () => {
+  assert.deepEqual(failedChecks({ ...handedOver, owner: GOVERNOR, governorRoles: 0n }), [
+    'token.owner() is renounced',
+    'token.rolesOf(governor) includes DEFAULT_ADMIN_ROLE'
+  ]);
+});
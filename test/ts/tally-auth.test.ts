@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  cacheToken,
+  clearCachedTokens,
+  decodeJwtExpiry,
+  getCachedToken,
+  isTokenValid
+} from '../../ts-scripts/tally-auth';
+
+const ADDRESS = '0x00000000000000000000000000000000000000aA';
+const ENDPOINT = 'https://api.tally.xyz/query';
+
+const jwt = (claims: Record<string, unknown>) =>
+  ['{"alg":"HS256"}', JSON.stringify(claims)].map(part => Buffer.from(part).toString('base64url')).join('.') + '.sig';
+
+const withCacheFile = (run: (file: string) => void) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tally-cache-'));
+  const file = path.join(dir, 'tokens.json');
+  process.env.TALLY_TOKEN_CACHE = file;
+  try {
+    run(file);
+  } finally {
+    delete process.env.TALLY_TOKEN_CACHE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+test('decodes the JWT exp claim', () => {
+  assert.equal(decodeJwtExpiry(jwt({ exp: 1700000000 })), 1700000000000);
+  assert.equal(decodeJwtExpiry(jwt({ sub: 'x' })), null);
+  assert.equal(decodeJwtExpiry('not-a-jwt'), null);
+  assert.equal(isTokenValid(jwt({ exp: 1700000000 }), 1700000000000), false);
+  assert.equal(isTokenValid(jwt({ exp: 1700003600 }), 1700000000000), true);
+});
+
+test('caches tokens per signer and endpoint with owner-only permissions', () => {
+  withCacheFile(file => {
+    const token = jwt({ exp: Math.floor(Date.now() / 1000) + 3600 });
+    cacheToken(ADDRESS, ENDPOINT, token);
+
+    assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+    assert.equal(getCachedToken(ADDRESS.toLowerCase(), ENDPOINT), token);
+    assert.equal(getCachedToken(ADDRESS, 'http://127.0.0.1/query'), undefined);
+
+    assert.equal(clearCachedTokens(ADDRESS, ENDPOINT), 1);
+    assert.equal(getCachedToken(ADDRESS, ENDPOINT), undefined);
+  });
+});
+
+test('ignores expired cached tokens', () => {
+  withCacheFile(() => {
+    cacheToken(ADDRESS, ENDPOINT, jwt({ exp: Math.floor(Date.now() / 1000) - 10 }));
+    assert.equal(getCachedToken(ADDRESS, ENDPOINT), undefined);
+  });
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { classifyTallyError, TallyApiError, TallyClient } from '../../ts-scripts/tally-client';
+import { startMockTallyServer } from './mock-tally-server';
+
+const GOVERNOR_ID = 'eip155:11155111:0x0000000000000000000000000000000000000001';
+
+test('sends the api key and bearer token to the configured endpoint', async () => {
+  const server = await startMockTallyServer(() => ({
+    body: { data: { governor: { id: GOVERNOR_ID, name: 'Gov', organization: null } } }
+  }));
+  try {
+    const client = new TallyClient({ apiKey: 'key', token: 'jwt', endpoint: server.url });
+    const governor = await client.governor(GOVERNOR_ID);
+
+    assert.equal(governor?.id, GOVERNOR_ID);
+    assert.equal(server.requests.length, 1);
+    assert.equal(server.requests[0].headers['api-key'], 'key');
+    assert.equal(server.requests[0].headers['authorization'], 'Bearer jwt');
+    assert.deepEqual(server.requests[0].variables, { id: GOVERNOR_ID });
+  } finally {
+    await server.close();
+  }
+});
+
+test('login forwards the nonce token header and returns the JWT', async () => {
+  const server = await startMockTallyServer(() => ({ body: { data: { login: 'new-jwt' } } }));
+  try {
+    const client = new TallyClient({ apiKey: 'key', endpoint: server.url });
+    const jwt = await client.login('message', '0xsig', 'nonce-token');
+
+    assert.equal(jwt, 'new-jwt');
+    assert.equal(server.requests[0].headers['nonce'], 'nonce-token');
+    assert.equal(server.requests[0].headers['authorization'], undefined);
+    assert.equal(server.requests[0].variables.signInType, 'evm');
+  } finally {
+    await server.close();
+  }
+});
+
+test('governor returns null when Tally reports not found', async () => {
+  const server = await startMockTallyServer(() => ({
+    status: 422,
+    body: { errors: [{ message: 'governor not found' }] }
+  }));
+  try {
+    const client = new TallyClient({ apiKey: 'key', endpoint: server.url });
+    assert.equal(await client.governor(GOVERNOR_ID), null);
+  } finally {
+    await server.close();
+  }
+});
+
+test('createOrganization raises an already-exists error', async () => {
+  const server = await startMockTallyServer(() => ({
+    body: { data: null, errors: [{ message: 'governor already exists' }] }
+  }));
+  try {
+    const client = new TallyClient({ apiKey: 'key', endpoint: server.url });
+    await assert.rejects(
+      client.createOrganization({ governors: [{ id: GOVERNOR_ID, type: 'openzeppelingovernor' }], name: 'DAO' }),
+      (error: unknown) => error instanceof TallyApiError && error.kind === 'already-exists'
+    );
+  } finally {
+    await server.close();
+  }
+});
+
+test('classifies HTTP and GraphQL failures', () => {
+  assert.equal(classifyTallyError(429, []), 'rate-limited');
+  assert.equal(classifyTallyError(401, []), 'auth-expired');
+  assert.equal(classifyTallyError(200, [{ message: 'Unauthorized', extensions: { code: 'UNAUTHENTICATED' } }]), 'auth-expired');
+  assert.equal(classifyTallyError(200, [{ message: 'organization not found' }]), 'not-found');
+  assert.equal(classifyTallyError(422, [{ message: 'invalid input' }]), 'validation');
+  assert.equal(classifyTallyError(500, [{ message: 'boom' }]), 'unknown');
+});
+
+test('refreshes the token and retries once when Tally rejects it with a 401', async () => {
+  const server = await startMockTallyServer(request =>
+    request.headers['authorization'] === 'Bearer stale'
+      ? { status: 401, body: { errors: [{ message: 'Unauthorized' }] } }
+      : { body: { data: { governor: null } } }
+  );
+  try {
+    let refreshed = 0;
+    const client = new TallyClient({
+      apiKey: 'key',
+      token: 'stale',
+      endpoint: server.url,
+      refreshToken: async () => {
+        refreshed++;
+        return 'fresh';
+      }
+    });
+
+    assert.equal(await client.governor(GOVERNOR_ID), null);
+    assert.equal(refreshed, 1);
+    assert.deepEqual(server.requests.map(r => r.headers['authorization']), ['Bearer stale', 'Bearer fresh']);
+  } finally {
+    await server.close();
+  }
+});
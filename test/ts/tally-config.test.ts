@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadTallyConfig, validateTallyConfig } from '../../ts-scripts/tally-config';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+test('accepts the sample config as it is', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tally-config-'));
+  try {
+    fs.copyFileSync('tally.config.sample.json', path.join(dir, 'tally.config.json'));
+
+    const config = loadTallyConfig(path.join(dir, 'tally.config.json'));
+    assert.equal(config.slug, 'your-dao');
+    assert.deepEqual(config.governors, []);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('lists every schema error with its path', () => {
+  assert.throws(
+    () =>
+      validateTallyConfig({
+        daoName: '',
+        description: 'DAO',
+        slug: 'Not A Slug',
+        socials: { x: 'not a url', mastodon: 'https://example.org' },
+        contactEmail: 'nobody',
+        governors: [
+          { chainId: 0, governor: '0x1234' },
+          { chainId: 8453, governor: ZERO_ADDRESS, governorStartBlock: 0, token: ZERO_ADDRESS, tokenStartBlock: 0 }
+        ]
+      }),
+    (error: Error) => {
+      for (const expected of [
+        'daoName must not be empty',
+        'slug "Not A Slug" does not match',
+        'socials.x "not a url" is not a URL',
+        'socials.mastodon is not a known key',
+        'contactEmail "nobody" is not an email address',
+        'governors[0].chainId must be at least 1',
+        'governors[0].governor "0x1234" does not match',
+        'governors[0].token is required',
+        'governors[1].governor must not be the zero address',
+        'governors[1].token must not be the zero address'
+      ]) {
+        assert.ok(error.message.includes(expected), `missing "${expected}" in:\n${error.message}`);
+      }
+      return true;
+    }
+  );
+});
+
+test('reports missing local images', () => {
+  assert.throws(
+    () => validateTallyConfig({ daoName: 'DAO', description: 'DAO', icon: 'missing/icon.png' }),
+    /icon image file missing\/icon.png not found/
+  );
+});
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { TallyClient, TallyOrganizationDetails } from '../../ts-scripts/tally-client';
+import { TallyConfig } from '../../ts-scripts/tally-config';
+import { planOrganizationUpdate } from '../../ts-scripts/tally-sync';
+import { startMockTallyServer } from './mock-tally-server';
+
+const organization: TallyOrganizationDetails = {
+  id: '2206072050315953936',
+  name: 'Ungovernable DAO',
+  slug: 'ungovernable-dao',
+  governors: [{ id: 'eip155:11155111:0x0000000000000000000000000000000000000001' }],
+  metadata: {
+    description: 'Old description',
+    icon: null,
+    socials: { website: 'https://example.org', discord: null, twitter: null, github: null }
+  }
+};
+
+const config: TallyConfig = {
+  name: 'Ungovernable DAO',
+  description: 'New description',
+  socials: { x: 'https://x.com/ungovernable' },
+  governors: []
+};
+
+test('plans only the fields that differ from Tally', () => {
+  const plan = planOrganizationUpdate(config, organization);
+
+  assert.deepEqual(plan.changes.map(change => change.field), ['description', 'socials.x']);
+  assert.deepEqual(plan.input, {
+    id: organization.id,
+    metadata: {
+      description: 'New description',
+      socials: { website: 'https://example.org', discord: null, twitter: 'https://x.com/ungovernable', github: null }
+    }
+  });
+});
+
+test('plans banner and contact email changes', () => {
+  const plan = planOrganizationUpdate(
+    { ...config, description: 'Old description', socials: {}, banner: 'https://example.org/banner.png', contactEmail: 'hello@example.org' },
+    { ...organization, metadata: { ...organization.metadata, banner: null, contact: { email: 'old@example.org' } } }
+  );
+
+  assert.deepEqual(plan.changes, [
+    { field: 'banner', current: '', desired: 'https://example.org/banner.png' },
+    { field: 'contactEmail', current: 'old@example.org', desired: 'hello@example.org' }
+  ]);
+  assert.deepEqual(plan.input, {
+    id: organization.id,
+    metadata: { banner: 'https://example.org/banner.png', contact: { email: 'hello@example.org' } }
+  });
+});
+
+test('syncing again after the update is a no-op', async () => {
+  let current = organization;
+  const server = await startMockTallyServer(request => {
+    if (request.query.includes('updateOrganization')) {
+      const { metadata, ...rest } = request.variables.input;
+      current = { ...current, ...rest, metadata: { ...current.metadata, ...metadata } };
+      return { body: { data: { updateOrganization: { id: current.id, slug: current.slug } } } };
+    }
+    return { body: { data: { organization: current } } };
+  });
+  try {
+    const client = new TallyClient({ apiKey: 'key', endpoint: server.url });
+    const desired = { ...config, banner: 'https://example.org/banner.png', contactEmail: 'hello@example.org' };
+    const first = planOrganizationUpdate(desired, (await client.organization(organization.id))!);
+    await client.updateOrganization(first.input!);
+
+    const second = planOrganizationUpdate(desired, (await client.organization(organization.id))!);
+    assert.deepEqual(second.changes, []);
+    assert.equal(second.input, null);
+    assert.equal(server.requests.filter(r => r.query.includes('updateOrganization')).length, 1);
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { planCalls } from '../../ts-scripts/token';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const withCsv = (content: string, run: (file: string) => void) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'token-'));
+  try {
+    const file = path.join(dir, 'targets.csv');
+    fs.writeFileSync(file, content);
+    run(file);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+test('plans whitelist and blacklist calls from arguments', () => {
+  const [whitelist] = planCalls('whitelist', [], [ALICE.toLowerCase()], 18);
+  assert.equal(whitelist.label, `setWhitelist(${ALICE}, true)`);
+  assert.deepEqual(whitelist.args, [ALICE, true]);
+  assert.equal(whitelist.event.matches([ALICE, true] as unknown as ethers.Result), true);
+  assert.equal(whitelist.event.matches([ALICE, false] as unknown as ethers.Result), false);
+
+  const [blacklist] = planCalls('blacklist', ['--remove'], [BOB], 18);
+  assert.deepEqual({ method: blacklist.method, args: blacklist.args, event: blacklist.event.name }, {
+    method: 'setBlacklist',
+    args: [BOB, false],
+    event: 'Blacklist'
+  });
+});
+
+test('plans mints from a CSV with decimal amounts and skips duplicates', () => {
+  withCsv(`address,amount\n${ALICE},1000.5\n${BOB},2\n${ALICE.toLowerCase()},3\n`, file => {
+    const calls = planCalls('mint', ['--csv', file], [], 18);
+
+    assert.deepEqual(
+      calls.map(call => call.args),
+      [
+        [ALICE, ethers.parseUnits('1000.5', 18)],
+        [BOB, 2n * 10n ** 18n]
+      ]
+    );
+    assert.equal(calls[1].event.matches([ethers.ZeroAddress, BOB, 2n * 10n ** 18n] as unknown as ethers.Result), true);
+  });
+});
+
+test('reads the enabled column of a whitelist CSV', () => {
+  withCsv(`address,enabled\n${ALICE},no\n${BOB},\n`, file => {
+    assert.deepEqual(
+      planCalls('whitelist', ['--csv', file], [], 18).map(call => call.args),
+      [
+        [ALICE, false],
+        [BOB, true]
+      ]
+    );
+  });
+  withCsv(`address,enabled\n${ALICE},maybe\n`, file => {
+    assert.throws(() => planCalls('whitelist', ['--csv', file], [], 18), /row 1: "maybe" is not a boolean/);
+  });
+});
+
+test('rejects bad addresses, amounts and commands', () => {
+  assert.throws(() => planCalls('mint', [], ['0x1234', '1'], 18), /argument: "0x1234" is not a valid address/);
+  assert.throws(() => planCalls('burn', [], [ALICE, '-1'], 18), /amount "-1" must be a decimal token amount/);
+  assert.throws(() => planCalls('mint', [], [ALICE], 18), /amount "" must be a decimal token amount/);
+  assert.throws(() => planCalls('whitelist', [], [], 18), /Pass an address or --csv <file>/);
+  assert.throws(() => planCalls('pause', [], [ALICE], 18), /Unknown token command "pause"/);
+  assert.deepEqual(planCalls('enable-transfer', [], [], 18)[0].method, 'enableTransfer');
+});
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { formatDuration, formatTokenAmount, validateDeployConfig } from '../../ts-scripts/validate-config';
+
+const validConfig = () => ({
+  governor: {
+    _initialProposalThreshold: '10000000000000000000000000',
+    _initialQuorumPercentage: 5,
+    _initialVoteExtension: 172800,
+    _initialVotingDelay: 86400,
+    _initialVotingPeriod: 604800,
+    _name: 'Ungovernable Governor'
+  },
+  token: {
+    _name: 'Ungovernable',
+    _symbol: 'ABC'
+  }
+});
+
+test('formats durations and token amounts in human units', () => {
+  assert.equal(formatDuration(0), '0s');
+  assert.equal(formatDuration(172800), '2d');
+  assert.equal(formatDuration(90061), '1d 1h 1m 1s');
+  assert.equal(formatTokenAmount(10n ** 25n), '10,000,000');
+  assert.equal(formatTokenAmount(15n * 10n ** 17n), '1.5');
+});
+
+test('accepts a valid config and keeps the threshold exact', () => {
+  const { config, errors, warnings } = validateDeployConfig(validConfig());
+
+  assert.deepEqual(errors, []);
+  assert.deepEqual(warnings, []);
+  assert.equal(config?.governor._initialProposalThreshold, 10n ** 25n);
+  assert.equal(config?.salt, undefined);
+});
+
+test('reports missing, misspelled and out-of-range keys by path', () => {
+  const raw: any = validConfig();
+  delete raw.governor._initialVotingDelay;
+  raw.governor.initialVotingDelay = 86400;
+  raw.governor._initialQuorumPercentage = 101;
+  raw.governor._initialVotingPeriod = 2 ** 32;
+  raw.token._symbol = ' ';
+  raw.salt = '0x1234';
+
+  const { config, errors } = validateDeployConfig(raw);
+
+  assert.equal(config, undefined);
+  assert.deepEqual(errors, [
+    { path: 'governor._initialVotingDelay', message: 'is missing' },
+    { path: 'governor.initialVotingDelay', message: 'is not a known key, did you mean "_initialVotingDelay"?' },
+    { path: 'governor._initialQuorumPercentage', message: 'must be between 1 and 100 (percent), got 101' },
+    { path: 'governor._initialVotingPeriod', message: 'must be between 1 and 4294967295 (uint32 seconds), got 4294967296' },
+    { path: 'token._symbol', message: 'must be a non-empty string, got " "' },
+    { path: 'salt', message: 'must be a 32-byte hex string (0x followed by 64 hex digits), got "0x1234"' }
+  ]);
+});
+
+test('rejects thresholds that lose precision as JSON numbers or overflow a uint256', () => {
+  const threshold = (value: unknown) => {
+    const raw: any = validConfig();
+    raw.governor._initialProposalThreshold = value;
+    return validateDeployConfig(raw);
+  };
+
+  assert.match(threshold(1e25).errors[0].message, /cannot be represented exactly in JSON/);
+  assert.match(threshold((2n ** 256n).toString()).errors[0].message, /does not fit in a uint256/);
+  assert.match(threshold('1e25').errors[0].message, /must be a decimal string/);
+  assert.equal(threshold(1000).config?.governor._initialProposalThreshold, 1000n);
+  assert.match(threshold(1000).warnings[0].message, /should be a decimal string/);
+});
+
+test('warns about risky but valid settings', () => {
+  const raw: any = validConfig();
+  raw.governor._initialVotingDelay = 0;
+  raw.governor._initialVotingPeriod = 3600;
+  raw.governor._initialQuorumPercentage = 60;
+  raw.governor._initialProposalThreshold = '0';
+
+  const { config, warnings } = validateDeployConfig(raw);
+
+  assert.ok(config);
+  assert.deepEqual(
+    warnings.map(warning => warning.path),
+    [
+      'governor._initialVoteExtension',
+      'governor._initialVotingPeriod',
+      'governor._initialVotingDelay',
+      'governor._initialProposalThreshold',
+      'governor._initialQuorumPercentage'
+    ]
+  );
+});
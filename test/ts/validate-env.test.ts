@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { checkEnv, COMMAND_REQUIREMENTS, missingEnvVars, privateKeyAddress, unknownEnvKeys } from '../../ts-scripts/validate-env';
+
+// The first anvil and hardhat account
+const ANVIL_KEY = 'ac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ANVIL_ACCOUNT_0 = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const withEnv = async (env: Record<string, string>, run: () => Promise<void>) => {
+  const previous = { ...process.env };
+  for (const key of ['NETWORK', 'SIGNER', 'VERIFIERS', 'ENV_FILE', 'PRIVATE_KEY', 'CHAIN_ID', 'RPC_URL', 'ETHERSCAN_API_KEY', 'TALLY_API_KEY']) {
+    delete process.env[key];
+  }
+  Object.assign(process.env, env);
+  try {
+    await run();
+  } finally {
+    process.env = previous;
+  }
+};
+
+const withRpc = async (results: Record<string, string>, run: (url: string) => Promise<void>) => {
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const { id, method } = JSON.parse(raw);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, result: results[method] }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+};
+
+test('requires only what each command needs', () => {
+  const env = { CHAIN_ID: '1' };
+
+  assert.deepEqual(missingEnvVars(COMMAND_REQUIREMENTS['check:tally'], env), ['PRIVATE_KEY', 'TALLY_API_KEY']);
+  assert.deepEqual(missingEnvVars(COMMAND_REQUIREMENTS['verify'], env), ['RPC_URL', 'ETHERSCAN_API_KEY']);
+  assert.deepEqual(missingEnvVars(COMMAND_REQUIREMENTS['verify'], { ...env, VERIFIERS: 'sourcify' }), ['RPC_URL']);
+  assert.deepEqual(missingEnvVars(COMMAND_REQUIREMENTS['deploy:test'], { ...env, SIGNER: 'keystore' }), ['KEYSTORE_PATH', 'RPC_URL']);
+});
+
+test('suggests the closest known name for unknown keys', () => {
+  const known = ['PRIVATE_KEY', 'RPC_URL', 'CHAIN_ID'];
+
+  assert.deepEqual(unknownEnvKeys(['PRIVATE_KEY', 'PRIVTE_KEY', 'CHAINID', 'MY_SETTING'], known), [
+    { key: 'PRIVTE_KEY', suggestion: 'PRIVATE_KEY' },
+    { key: 'CHAINID', suggestion: 'CHAIN_ID' },
+    { key: 'MY_SETTING', suggestion: undefined }
+  ]);
+});
+
+test('derives the address of a 32-byte hex private key', () => {
+  assert.equal(privateKeyAddress(ANVIL_KEY), ANVIL_ACCOUNT_0);
+  assert.equal(privateKeyAddress(`0x${ANVIL_KEY}`), ANVIL_ACCOUNT_0);
+  assert.throws(() => privateKeyAddress('0x1234'), /32 bytes of hex/);
+  assert.throws(() => privateKeyAddress(`0x${'0'.repeat(64)}`), /not a valid/);
+});
+
+test('checks that RPC_URL serves CHAIN_ID and that the signer has a balance', async () => {
+  await withRpc({ eth_chainId: '0x7a69', eth_getBalance: '0x0' }, async url => {
+    await withEnv({ PRIVATE_KEY: ANVIL_KEY, CHAIN_ID: '1', RPC_URL: url }, async () => {
+      const report = await checkEnv('renounce:prod');
+
+      assert.equal(report.deployer, ANVIL_ACCOUNT_0);
+      assert.deepEqual(report.errors.map(error => error.code), ['RPC_CHAIN_MISMATCH', 'BALANCE_EMPTY']);
+    });
+
+    await withEnv({ PRIVATE_KEY: ANVIL_KEY, CHAIN_ID: '31337', RPC_URL: url }, async () => {
+      const report = await checkEnv('renounce:test');
+
+      assert.deepEqual(report.errors, []);
+      assert.equal(report.balance, undefined);
+    });
+  });
+});
+
+test('rejects a CHAIN_ID that is not an integer and an RPC_URL that is not a URL', async () => {
+  await withEnv({ CHAIN_ID: '1.5', RPC_URL: 'localhost:8545', ETHERSCAN_API_KEY: 'key' }, async () => {
+    const report = await checkEnv('verify');
+
+    assert.deepEqual(report.errors.map(error => error.code), ['ENV_INVALID', 'ENV_INVALID']);
+    assert.match(report.errors[0].message, /CHAIN_ID/);
+  });
+});
@@ -0,0 +1,131 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  CommandOutput,
+  parseArgs,
+  parseVerificationGuid,
+  parseVerificationOutput,
+  parseVerifiers,
+  verifierArgs,
+  verifyWithRetry
+} from '../../ts-scripts/verify-contracts';
+
+const ADDRESS = '0x0000000000000000000000000000000000000001';
+
+test('parses forge and explorer responses', () => {
+  const parse = (output: string, failed = false) => parseVerificationOutput({ output, failed });
+
+  assert.equal(parse('Contract verification status:\nResponse: `OK`\nDetails: `Pass - Verified`\nContract successfully verified'), 'pass');
+  assert.equal(parse('Contract [src/UngovernableERC20.sol:UngovernableERC20] "0x01" is already verified. Skipping verification.'), 'already-verified');
+  assert.equal(parse('Submitted contract for verification:\n\tResponse: `OK`\n\tGUID: `abc`'), 'submitted');
+  assert.equal(parse('Details: `Pending in queue`', true), 'pending');
+  assert.equal(parse('Error: Max rate limit reached, please use API Key for higher rate limit', true), 'rate-limited');
+  assert.equal(parse('Details: `Fail - Unable to verify. Compiled contract deployment bytecode does NOT match`', true), 'fail');
+  assert.equal(parse('', true), 'fail');
+  assert.equal(parse('Submitted contract for verification:\n\tGUID: `abc`\nError: connection reset', true), 'fail');
+});
+
+test('lets the line that settles a watched run win over earlier notices', () => {
+  const parse = (output: string, failed = false) => parseVerificationOutput({ output, failed });
+
+  // "error" in an earlier response does not hide the result
+  assert.equal(parse('Error: Max rate limit reached\nSubmitted contract for verification:\n\tGUID: `abc`\nDetails: `Pass - Verified`\nContract successfully verified'), 'pass');
+  assert.equal(parse('Details: `Pending in queue`\nDetails: `Fail - Unable to verify. Compiled contract deployment bytecode does NOT match`', true), 'fail');
+  assert.equal(parse('Details: `Pending in queue`\nMax rate limit reached', true), 'pending');
+  assert.equal(parse('Error: invalid API key', true), 'fail');
+});
+
+test('reads the submission GUID', () => {
+  assert.equal(parseVerificationGuid('Submitted contract for verification:\n\tResponse: `OK`\n\tGUID: `vp1xq2ks4ymbvdutkbjaqbkyrgqwqnmwfvbjvdkbx2dzc9zcsf`'), 'vp1xq2ks4ymbvdutkbjaqbkyrgqwqnmwfvbjvdkbx2dzc9zcsf');
+  assert.equal(parseVerificationGuid('Max rate limit reached'), undefined);
+});
+
+test('retries pending and rate-limited results with backoff', async () => {
+  const responses: CommandOutput[] = [
+    { output: 'Max rate limit reached', failed: true },
+    { output: 'Details: `Pending in queue`', failed: true },
+    { output: 'Details: `Pass - Verified`', failed: false }
+  ];
+  const delays: number[] = [];
+
+  const result = await verifyWithRetry('UngovernableERC20', ADDRESS, 'etherscan', async () => responses.shift()!, async () => responses.shift()!, async ms => {
+    delays.push(ms);
+  });
+
+  assert.equal(result.status, 'pass');
+  assert.equal(result.attempts, 3);
+  assert.deepEqual(delays, [5000, 10000]);
+});
+
+test('checks the GUID of an accepted submission instead of submitting again', async () => {
+  const calls: string[] = [];
+  const result = await verifyWithRetry(
+    'UngovernableERC20',
+    ADDRESS,
+    'etherscan',
+    async () => {
+      calls.push('submit');
+      return { output: 'Submitted contract for verification:\n\tGUID: `abc`\nDetails: `Pending in queue`', failed: true };
+    },
+    async guid => {
+      calls.push(`check ${guid}`);
+      return calls.length < 3 ? { output: 'Max rate limit reached', failed: true } : { output: 'Contract successfully verified', failed: false };
+    },
+    async () => {}
+  );
+
+  assert.equal(result.status, 'pass');
+  assert.deepEqual(calls, ['submit', 'check abc', 'check abc']);
+});
+
+test('does not retry failures and gives up after the last attempt', async () => {
+  let runs = 0;
+  const submit = async () => {
+    runs++;
+    return { output: 'Fail - Unable to verify', failed: true };
+  };
+  const failed = await verifyWithRetry('UngovernableGovernor', ADDRESS, 'etherscan', submit, submit, async () => {});
+  assert.equal(failed.status, 'fail');
+  assert.equal(runs, 1);
+
+  const stillPending = async () => ({ output: 'Pending in queue', failed: true });
+  const pending = await verifyWithRetry('UngovernableGovernor', ADDRESS, 'etherscan', stillPending, stillPending, async () => {}, 3);
+  assert.equal(pending.status, 'pending');
+  assert.equal(pending.attempts, 3);
+});
+
+test('parses verifier lists with custom URLs', () => {
+  assert.deepEqual(parseVerifiers('etherscan,sourcify,blockscout=https://eth-sepolia.blockscout.com/api', 'https://api-sepolia.etherscan.io/api'), [
+    { name: 'etherscan', url: 'https://api-sepolia.etherscan.io/api' },
+    { name: 'sourcify', url: undefined },
+    { name: 'blockscout', url: 'https://eth-sepolia.blockscout.com/api' }
+  ]);
+  assert.deepEqual(parseVerifiers('https://verifier.example/api'), [{ name: 'custom', url: 'https://verifier.example/api' }]);
+
+  assert.throws(() => parseVerifiers('blockscout'), /needs an API URL/);
+  assert.throws(() => parseVerifiers('oklink'), /Unknown verifier "oklink"/);
+  assert.throws(() => parseVerifiers('sourcify,sourcify'), /more than once/);
+});
+
+test('builds forge options per verifier', () => {
+  assert.deepEqual(verifierArgs({ name: 'sourcify' }), ['--verifier', 'sourcify']);
+  assert.deepEqual(verifierArgs({ name: 'blockscout', url: 'https://eth.blockscout.com/api' }), [
+    '--verifier', 'blockscout', '--verifier-url', 'https://eth.blockscout.com/api'
+  ]);
+  assert.deepEqual(verifierArgs({ name: 'etherscan' }, 'key'), ['--verifier', 'etherscan', '--etherscan-api-key', 'key']);
+  assert.throws(() => verifierArgs({ name: 'etherscan' }), /--etherscan/);
+});
+
+test('reads options without taking the next flag as the value of an unknown switch', () => {
+  const saved = { ...process.env };
+  delete process.env.VERIFIERS;
+  try {
+    const args = parseArgs(['node', 'verify', '--check', '--chainId', '11155111', '--rpcUrl=http://127.0.0.1:8545', '--verifier', 'sourcify']);
+
+    assert.equal(args.chainId, '11155111');
+    assert.equal(args.rpcUrl, 'http://127.0.0.1:8545');
+    assert.equal(args.verifier, 'sourcify');
+  } finally {
+    process.env = saved;
+  }
+});
@@ -41,7 +41,7 @@ contract BaseTest is Test {
         vm.label(admin2.addr, "admin2");
 
         vm.prank(initialOwner.addr);
-        ungovernableERC20 = new UngovernableERC20("ERC20", "ABC");
+        ungovernableERC20 = new UngovernableERC20("ERC20", "ABC", initialOwner.addr);
         ungovernableGovernor = new UngovernableGovernor(
             "Governor",
             ungovernableERC20,
@@ -0,0 +1,21 @@
+/**
+ * Reads the value of a `--flag value` or `--flag=value` option
+ */
+export function getFlag(argv: string[], flag: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === flag) {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith(`${flag}=`)) {
+      return argv[i].slice(flag.length + 1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the arguments that are not flags, skipping the values of `valueFlags` given as `--flag value`
+ */
+export function getPositionals(args: string[], valueFlags: string[]): string[] {
+  return args.filter((arg, i) => !arg.startsWith('--') && !valueFlags.includes(args[i - 1]));
+}
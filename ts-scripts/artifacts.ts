@@ -0,0 +1,25 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * The parts of a forge artifact in out/ that the scripts use
+ */
+export interface ContractArtifact {
+  abi: any[];
+  bytecode: { object: string };
+  metadata: {
+    compiler: { version: string };
+    settings?: { optimizer?: { enabled?: boolean; runs?: number } };
+  };
+}
+
+/**
+ * Reads out/<Contract>.sol/<Contract>.json, failing with a hint to build when it is missing
+ */
+export function loadArtifact(contractName: string): ContractArtifact {
+  const file = path.join(process.cwd(), 'out', `${contractName}.sol`, `${contractName}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Artifact for ${contractName} not found at ${file}. Run "forge build" first.`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
@@ -0,0 +1,462 @@
+#!/usr/bin/env ts-node
+import dotenv from 'dotenv';
+import { getFlag } from './args';
+import { resolveNetwork } from './networks';
+import { fail, finish, setupOutput } from './output';
+import { setAssumeYes } from './prompt';
+
+/**
+ * Entrypoint for the deploy, verify, renounce and Tally commands, run like: pnpm deploy:prod --network sepolia --debug
+ * Commands run in this process. Their scripts are loaded only once the global flags have set up the environment,
+ * since each reads DEBUG and its .env file when it is loaded.
+ */
+
+// Define ANSI color codes for console output
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+/**
+ * The flags every command accepts
+ */
+export interface GlobalOptions {
+  debug: boolean;
+  network?: string;
+  json: boolean;
+  yes: boolean;
+  envFile?: string;
+}
+
+interface CliCommand {
+  description: string;
+  // Positional arguments, shown by --help after the command name
+  arguments?: string;
+  // Flags of this command, shown by --help next to the global ones
+  options?: [string, string][];
+  run: () => Promise<void>;
+}
+
+const GLOBAL_FLAGS: [string, string][] = [
+  ['--network <name>', 'Target a profile from networks.config.json'],
+  ['--debug', 'Print debug output'],
+  ['--json', 'Print one JSON result on stdout, logs go to stderr'],
+  ['--yes', 'Answer yes to confirmation prompts'],
+  ['--env-file <file>', 'Read environment variables from this file instead of .env'],
+];
+
+// Global flags that take a value, so the value is not mistaken for the command
+const VALUE_FLAGS = ['--network', '--env-file'];
+
+// Flags handled here and not passed on to the command
+const CLI_FLAGS = ['--debug', '--env-file', '--yes'];
+
+/**
+ * Splits the command line into the command, the global options and the arguments passed on to the command
+ */
+export function parseCommandLine(args: string[]): { command?: string; options: GlobalOptions; rest: string[] } {
+  let command: string | undefined;
+  const rest: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const flag = arg.split('=')[0];
+    const takesValue = VALUE_FLAGS.includes(arg);
+    if (!CLI_FLAGS.includes(flag)) {
+      if (!command && !arg.startsWith('--')) {
+        command = arg;
+        continue;
+      }
+      rest.push(...(takesValue ? [arg, args[i + 1]] : [arg]));
+    }
+    if (takesValue) {
+      i++;
+    }
+  }
+
+  return {
+    command,
+    options: {
+      debug: args.includes('--debug'),
+      network: getFlag(args, '--network'),
+      json: args.includes('--json'),
+      yes: args.includes('--yes'),
+      envFile: getFlag(args, '--env-file')
+    },
+    rest
+  };
+}
+
+/**
+ * Fails before anything is sent when the environment does not have what the command needs
+ */
+async function requireEnv(command: string) {
+  await (await import('./validate-env')).requireEnv(command);
+}
+
+/**
+ * Fails before deploying when deploy.config.json is invalid
+ */
+async function requireDeployConfig() {
+  (await import('./validate-config')).requireDeployConfig();
+}
+
+/**
+ * Runs a forge script against CHAIN_ID/RPC_URL with the configured signer
+ */
+async function forgeScript(script: string, args: string[]) {
+  await (await import('./forge')).forgeScript(script, args);
+}
+
+/**
+ * Points the renounce script at the selected deployment record
+ */
+async function exportDeploymentFile() {
+  (await import('./deployments')).exportDeploymentFile(resolveNetwork().chainId);
+}
+
+const COMMANDS: Record<string, CliCommand> = {
+  'validate:env': {
+    description: 'Check that the environment has what the commands need',
+    options: [['--command <name>', 'Only check what this command needs (default: everything a launch needs)']],
+    run: async () => (await import('./validate-env')).main()
+  },
+  'validate:config': {
+    description: 'Check deploy.config.json and print it in human units',
+    run: async () => (await import('./validate-config')).main()
+  },
+  'deploy:test': {
+    description: 'Simulate the deployment and report its gas and cost',
+    run: async () => {
+      await requireEnv('deploy:test');
+      await requireDeployConfig();
+      await forgeScript('script/Deploy.s.sol', []);
+      await (await import('./dry-run-report')).main();
+    }
+  },
+  'deploy:report': {
+    description: 'Print the gas and cost report of the last simulation again',
+    options: [['--scripts <list>', 'Simulated scripts to include (default: Deploy.s.sol)']],
+    run: async () => (await import('./dry-run-report')).main()
+  },
+  'deploy:prod': {
+    description: 'Deploy the token and governor, record the deployment and verify it',
+    run: async () => {
+      await requireEnv('deploy:prod');
+      await requireDeployConfig();
+      await forgeScript('script/Deploy.s.sol', ['--broadcast', '--slow']);
+
+      const { deploymentRecordPath, recordDeployment } = await import('./deployments');
+      const network = resolveNetwork();
+      const record = recordDeployment(network.chainId, network.name);
+      console.log(`✅ Recorded deployment ${record.name} at ${deploymentRecordPath(record)}`);
+
+      await (await import('./verify-contracts')).main();
+    }
+  },
+  'deployments': {
+    description: 'List, show or select the recorded deployments of the network',
+    arguments: '<list|show [name]|use <name>|record|path [name]>',
+    options: [['--name <name>', 'Name of the deployment to record (default: a timestamp)']],
+    run: async () => {
+      await requireEnv('deployments');
+      (await import('./deployments')).main();
+    }
+  },
+  'predict': {
+    description: 'Print the CREATE2 addresses of the token and governor for the deploy.config.json salt',
+    options: [
+      ['--deployer <address>', 'Predict for this deployer instead of the configured signer'],
+      ['--salt <bytes32>', 'Predict for this salt instead of the one in deploy.config.json'],
+      ['--check', 'Also show which contracts already exist on the network']
+    ],
+    run: async () => {
+      // Without the signer's address or the network there is nothing to check
+      if (!getFlag(process.argv, '--deployer') || process.argv.includes('--check')) {
+        await requireEnv(process.argv.includes('--check') ? 'predict:check' : 'predict');
+      }
+      await (await import('./predict')).main();
+    }
+  },
+  'verify': {
+    description: 'Verify the contracts of the selected deployment',
+    options: [
+      ['--deployment <name>', 'Deployment to verify (default: the active one)'],
+      ['--contracts <list>', 'Only verify these contracts'],
+      ['--verifier <list>', 'etherscan, sourcify, blockscout=<url> or custom=<url> (default: VERIFIERS or etherscan)']
+    ],
+    run: async () => {
+      await requireEnv('verify');
+      await (await import('./verify-contracts')).main();
+    }
+  },
+  'renounce:test': {
+    description: 'Simulate handing token ownership to the governor',
+    options: [['--deployment <name>', 'Deployment to renounce (default: the active one)']],
+    run: async () => {
+      await requireEnv('renounce:test');
+      await exportDeploymentFile();
+      await forgeScript('script/RenounceToGovernance.s.sol', ['--slow']);
+    }
+  },
+  'renounce:prod': {
+    description: 'Run the pre-renounce checks and hand token ownership to the governor',
+    options: [
+      ['--deployment <name>', 'Deployment to renounce (default: the active one)'],
+      ['--confirm-symbol <SYM>', 'Answer the token symbol confirmation without a prompt']
+    ],
+    run: async () => {
+      await requireEnv('renounce:prod');
+      await exportDeploymentFile();
+      await (await import('./preflight-renounce')).preflightRenounce();
+      await forgeScript('script/RenounceToGovernance.s.sol', ['--broadcast', '--slow']);
+    }
+  },
+  'renounce:preflight': {
+    description: 'Run the pre-renounce checks without renouncing',
+    options: [
+      ['--deployment <name>', 'Deployment to check (default: the active one)'],
+      ['--confirm-symbol <SYM>', 'Answer the token symbol confirmation without a prompt']
+    ],
+    run: async () => {
+      await requireEnv('renounce:preflight');
+      await (await import('./preflight-renounce')).preflightRenounce();
+    }
+  },
+  'status:ownership': {
+    description: 'Check that the token was handed over to the governor with the deployed settings',
+    options: [['--deployment <name>', 'Deployment to check (default: the active one)']],
+    run: async () => {
+      await requireEnv('status:ownership');
+      await (await import('./status-ownership')).main();
+    }
+  },
+  'publish:tally': {
+    description: 'Publish the selected deployment to Tally as a DAO',
+    run: async () => {
+      await requireEnv('publish:tally');
+      await (await import('./publish-tally')).publishToTally();
+    }
+  },
+  'check:tally': {
+    description: 'Check whether the selected deployment is on Tally',
+    run: async () => {
+      await requireEnv('check:tally');
+      await (await import('./check-tally-dao')).checkDaoOnTally();
+    }
+  },
+  'tally:sync': {
+    description: 'Update the Tally organization to match tally.config.json',
+    options: [
+      ['--dry-run', 'Only show the planned changes'],
+      ['--deployment <name>', 'Deployment whose governor is on Tally (default: the active one)']
+    ],
+    run: async () => {
+      await requireEnv('tally:sync');
+      await (await import('./tally-sync')).main();
+    }
+  },
+  'tally:logout': {
+    description: 'Clear the cached Tally token of the signer',
+    options: [['--all', 'Clear every cached Tally token']],
+    run: async () => {
+      if (!process.argv.includes('--all')) {
+        await requireEnv('tally:logout');
+      }
+      await (await import('./tally-auth')).logout();
+    }
+  },
+  'token': {
+    description: 'Whitelist, blacklist, enable transfers, mint or burn as the token owner',
+    arguments: '<whitelist|blacklist|enable-transfer|mint|burn> [address] [amount]',
+    options: [
+      ['--csv <file>', 'Read the addresses (and amounts) from a CSV file'],
+      ['--remove', 'Remove from the whitelist or blacklist'],
+      ['--dry-run', 'Only preview the calls with eth_call'],
+      ['--deployment <name>', 'Deployment to act on (default: the active one)']
+    ],
+    run: async () => {
+      await requireEnv('token');
+      await (await import('./token')).main();
+    }
+  },
+  'distribute': {
+    description: 'Mint the initial token allocations from a CSV or JSON file, resuming an interrupted distribution',
+    arguments: '<allocations.csv|allocations.json>',
+    options: [
+      ['--batch-size <n>', 'Mints sent before waiting for receipts (default: 20)'],
+      ['--state <file>', 'Progress file (default: distributions/<chainId>/<deployment>.state.json)'],
+      ['--dry-run', 'Validate and show totals without minting'],
+      ['--deployment <name>', 'Deployment to mint on (default: the active one)']
+    ],
+    run: async () => {
+      await requireEnv('distribute');
+      await (await import('./distribute')).main();
+    }
+  },
+  'proposal:create': {
+    description: 'Simulate and submit a governance proposal from a JSON or YAML file',
+    arguments: '<file>',
+    options: [
+      ['--fork-url <url>', 'Simulate the proposal on this fork'],
+      ['--dry-run', 'Only simulate the proposal'],
+      ['--deployment <name>', 'Deployment whose governor to use (default: the active one)']
+    ],
+    run: async () => {
+      await requireEnv('proposal:create');
+      await (await import('./proposal')).main('create');
+    }
+  },
+  'proposal:vote': {
+    description: 'Cast a vote on a proposal',
+    arguments: '<proposalId> <for|against|abstain>',
+    options: [
+      ['--reason <text>', 'Vote with a reason'],
+      ['--deployment <name>', 'Deployment whose governor to use (default: the active one)']
+    ],
+    run: async () => {
+      await requireEnv('proposal:vote');
+      await (await import('./proposal')).main('vote');
+    }
+  },
+  'proposal:status': {
+    description: 'Show the state and votes of a proposal',
+    arguments: '<proposalId>',
+    options: [['--deployment <name>', 'Deployment whose governor to use (default: the active one)']],
+    run: async () => {
+      await requireEnv('proposal:status');
+      await (await import('./proposal')).main('status');
+    }
+  },
+  'proposal:queue': {
+    description: 'Queue a succeeded proposal',
+    arguments: '<file>',
+    options: [['--deployment <name>', 'Deployment whose governor to use (default: the active one)']],
+    run: async () => {
+      await requireEnv('proposal:queue');
+      await (await import('./proposal')).main('queue');
+    }
+  },
+  'proposal:execute': {
+    description: 'Execute a queued proposal',
+    arguments: '<file>',
+    options: [
+      ['--send-value', 'Pay the action values with the execute transaction instead of from the governor balance'],
+      ['--deployment <name>', 'Deployment whose governor to use (default: the active one)']
+    ],
+    run: async () => {
+      await requireEnv('proposal:execute');
+      await (await import('./proposal')).main('execute');
+    }
+  },
+  'launch': {
+    description: 'Run validate, deploy, record, verify, distribute, renounce, publish and status in order, resuming a failed launch',
+    options: [
+      ['--allocations <file>', 'CSV or JSON allocation file for the distribute step (skipped without one)'],
+      ['--from <step>', 'Run this step and every step after it, even if they already ran'],
+      ['--only <step,...>', 'Run only these steps'],
+      ['--confirm-symbol <SYM>', 'Answer the renounce confirmation without a prompt'],
+      ['--state <file>', 'Use a different state file (default: launches/<chainId>.state.json)']
+    ],
+    run: async () => (await import('./launch')).main()
+  }
+};
+
+const formatFlags = (flags: [string, string][]) => {
+  const width = Math.max(...flags.map(([flag]) => flag.length));
+  return flags.map(([flag, description]) => `  ${flag.padEnd(width)}  ${description}`).join('\n');
+};
+
+/**
+ * Prints the command list, or the usage of one command
+ */
+function showHelp(command?: string) {
+  if (command) {
+    const { description, options = [] } = COMMANDS[command];
+    console.log(`
+${colors.cyan}Usage:${colors.reset} pnpm ${command}${COMMANDS[command].arguments ? ` ${COMMANDS[command].arguments}` : ''} [options]
+
+${description}
+
+${colors.cyan}Options:${colors.reset}
+${formatFlags([...options, ...GLOBAL_FLAGS])}
+`);
+    return;
+  }
+
+  const width = Math.max(...Object.keys(COMMANDS).map(name => name.length));
+  console.log(`
+${colors.cyan}Usage:${colors.reset} pnpm <command> [options]
+
+${colors.cyan}Commands:${colors.reset}
+${Object.entries(COMMANDS).map(([name, { description }]) => `  ${name.padEnd(width)}  ${description}`).join('\n')}
+
+${colors.cyan}Global options:${colors.reset}
+${formatFlags(GLOBAL_FLAGS)}
+
+Run pnpm <command> --help for the options of a command.
+`);
+}
+
+// Main function
+const main = async () => {
+  const { command, options, rest } = parseCommandLine(process.argv.slice(2));
+
+  if (!command || !COMMANDS[command]) {
+    showHelp();
+    if (command) {
+      console.error(`${colors.red}Error: Unknown command: ${command}${colors.reset}`);
+    }
+    process.exit(command || !process.argv.includes('--help') ? 1 : 0);
+  }
+  if (rest.includes('--help')) {
+    showHelp(command);
+    process.exit(0);
+  }
+
+  // The scripts read these when they are loaded, so they are set before any command runs
+  if (options.envFile) {
+    process.env.ENV_FILE = options.envFile;
+  }
+  dotenv.config({ path: options.envFile });
+  if (options.debug) {
+    process.env.DEBUG = 'true';
+    console.log('Running command in DEBUG mode');
+  }
+  if (options.json) {
+    process.env.JSON_OUTPUT = 'true';
+  }
+  setupOutput();
+  setAssumeYes(options.yes);
+
+  // The command sees its own arguments, as if it had been run directly
+  process.argv = [process.argv[0], process.argv[1], ...rest];
+
+  // --verifier etherscan,sourcify,... is also read by the environment checks, ahead of the network profile
+  const verifiers = getFlag(rest, '--verifier');
+  if (verifiers) {
+    process.env.VERIFIERS = verifiers;
+  }
+
+  try {
+    // Resolve the --network profile (or NETWORK from the env file) into CHAIN_ID/RPC_URL/ETHERSCAN_API_KEY
+    if (options.network || process.env.NETWORK) {
+      const network = resolveNetwork();
+      console.log(`Using network ${network.name} (chain ID ${network.chainId})`);
+    }
+
+    await COMMANDS[command].run();
+    finish(command);
+  } catch (error: any) {
+    console.error(`${colors.red}Error: ${error.message}${colors.reset}`);
+    if (options.debug) {
+      console.error(error);
+    }
+    fail(command, error);
+  }
+};
+
+if (require.main === module) {
+  main();
+}
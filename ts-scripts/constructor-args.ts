@@ -0,0 +1,81 @@
+import { ethers } from 'ethers';
+
+/**
+ * The constructor parameters of an ABI, empty when the contract has no constructor
+ */
+export function getConstructorInputs(abi: any[]): ethers.ParamType[] {
+  return new ethers.Interface(abi).deploy.inputs.slice();
+}
+
+/**
+ * Converts one value of forge's broadcast `arguments` array to the type the ABI expects. forge writes every
+ * argument as a string: strings quoted, and large numbers followed by their scientific notation, as in
+ * `10000000000000000000000000 [1e25]`.
+ */
+export function parseBroadcastArgument(value: unknown, param: ethers.ParamType): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const baseType = param.baseType;
+  if (baseType === 'string') {
+    return /^".*"$/s.test(value) ? JSON.parse(value) : value;
+  }
+  if (baseType === 'address') {
+    return ethers.getAddress(value);
+  }
+  if (/^u?int\d*$/.test(param.type)) {
+    return BigInt(value.replace(/\s*\[.*\]$/, ''));
+  }
+  if (baseType === 'bool') {
+    if (value !== 'true' && value !== 'false') {
+      throw new Error(`Expected a bool for ${param.name || param.type}, got ${value}`);
+    }
+    return value === 'true';
+  }
+  if (/^bytes\d*$/.test(param.type)) {
+    return ethers.hexlify(value);
+  }
+  throw new Error(`Unsupported constructor parameter type ${param.type}`);
+}
+
+/**
+ * Writes a typed value the way forge writes it to a broadcast's `arguments`, the inverse of parseBroadcastArgument
+ */
+export function formatBroadcastArgument(value: unknown, param: ethers.ParamType): string {
+  return param.baseType === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Converts the recorded constructor arguments of a deployment to typed values using the artifact's constructor
+ */
+export function parseConstructorArgs(abi: any[], args: unknown[]): unknown[] {
+  const inputs = getConstructorInputs(abi);
+  if (inputs.length !== args.length) {
+    throw new Error(`Constructor takes ${inputs.length} argument(s), the deployment has ${args.length}`);
+  }
+  return inputs.map((param, i) => parseBroadcastArgument(args[i], param));
+}
+
+/**
+ * The recorded constructor arguments of a deployment as typed values keyed by the constructor's parameter names
+ */
+export function namedConstructorArgs(abi: any[], args: unknown[]): Record<string, unknown> {
+  const values = parseConstructorArgs(abi, args);
+  return Object.fromEntries(getConstructorInputs(abi).map((param, i) => [param.name, values[i]]));
+}
+
+/**
+ * ABI-encodes constructor arguments from a deployment record against the artifact's constructor, returning
+ * the hex forge expects for --constructor-args ("0x" when the constructor takes no arguments)
+ */
+export function encodeConstructorArgs(abi: any[], args: unknown[]): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(getConstructorInputs(abi), parseConstructorArgs(abi, args));
+}
+
+/**
+ * Whether a creation transaction's input ends with the encoded constructor arguments. This holds for plain
+ * CREATE (bytecode + args) and for the CREATE2 factory (salt + bytecode + args).
+ */
+export function matchesDeploymentInput(input: string, encodedArgs: string): boolean {
+  return input.toLowerCase().endsWith(encodedArgs.slice(2).toLowerCase());
+}
@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+
+/**
+ * Splits one CSV line into fields, honouring double-quoted fields with "" escapes
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Reads a CSV file with a header row into one object per row, keyed by lower-cased header.
+ * Blank lines and lines starting with # are skipped.
+ */
+export function readCsv(file: string): Record<string, string>[] {
+  // Keep each line's number in the file for errors, since comment and blank lines are dropped
+  const lines = fs
+    .readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .map((text, index) => ({ text, number: index + 1 }))
+    .filter(({ text }) => text.trim() !== '' && !text.trim().startsWith('#'));
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const headers = parseCsvLine(lines[0].text).map(header => header.toLowerCase());
+  return lines.slice(1).map(({ text, number }) => {
+    const fields = parseCsvLine(text);
+    if (fields.length !== headers.length) {
+      throw new Error(`${file} line ${number}: expected ${headers.length} fields, got ${fields.length}`);
+    }
+    return Object.fromEntries(headers.map((header, i) => [header, fields[i]]));
+  });
+}
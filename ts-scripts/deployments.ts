@@ -0,0 +1,365 @@
+#!/usr/bin/env ts-node
+import * as fs from 'fs';
+import * as path from 'path';
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { getFlag, getPositionals } from './args';
+import { ContractArtifact, loadArtifact } from './artifacts';
+import { formatBroadcastArgument, getConstructorInputs, parseBroadcastArgument } from './constructor-args';
+import { broadcastDir, resolveNetwork } from './networks';
+import { CommandError, fail, finish, setupOutput } from './output';
+import { PredictedContract, predictDeployment } from './predict';
+import { loadDeployConfig } from './validate-config';
+
+// Load environment variables
+dotenv.config({ path: process.env.ENV_FILE });
+
+// Resolved per call so the registry follows the working directory, like broadcastDir
+const deploymentsDir = () => path.join(process.cwd(), 'deployments');
+const activeFile = () => path.join(deploymentsDir(), 'active.json');
+
+/**
+ * A single contract creation from a deployment
+ */
+export interface ContractDeployment {
+  contractName: string;
+  address: string;
+  blockNumber: number | null;
+  // null for a deterministic contract that was already deployed and reused
+  transactionHash: string | null;
+  constructorArgs: string[];
+  // Latest verify result per verifier (etherscan, sourcify, blockscout, custom)
+  verification?: Record<string, VerificationRecord>;
+}
+
+/**
+ * The last verification status of a contract with one verifier
+ */
+export interface VerificationRecord {
+  status: string;
+  url?: string;
+  updatedAt: string;
+}
+
+/**
+ * An entry in deployments/<chainId>/<name>.json
+ */
+export interface DeploymentRecord {
+  name: string;
+  network: string;
+  chainId: number;
+  createdAt: string;
+  deployer: string;
+  compilerVersion: string;
+  configHash: string;
+  broadcastFile: string;
+  contracts: {
+    token: ContractDeployment;
+    governor: ContractDeployment;
+  };
+}
+
+const TOKEN_CONTRACT_NAME = 'UngovernableERC20';
+const GOVERNOR_CONTRACT_NAME = 'UngovernableGovernor';
+
+const recordPath = (chainId: number, name: string) => path.join(deploymentsDir(), String(chainId), `${name}.json`);
+
+/**
+ * Reads `--deployment <name>` or `--deployment=<name>` from the command line
+ */
+export function parseDeploymentArg(argv: string[] = process.argv): string | undefined {
+  return getFlag(argv, '--deployment');
+}
+
+const readActive = (): Record<string, string> =>
+  fs.existsSync(activeFile()) ? JSON.parse(fs.readFileSync(activeFile(), 'utf8')) : {};
+
+/**
+ * Lists every recorded deployment on a chain, oldest first
+ */
+export function listDeployments(chainId: number): DeploymentRecord[] {
+  const dir = path.join(deploymentsDir(), String(chainId));
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as DeploymentRecord)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Reads a named deployment record
+ */
+export function getDeployment(chainId: number, name: string): DeploymentRecord {
+  const file = recordPath(chainId, name);
+  if (!fs.existsSync(file)) {
+    const available = listDeployments(chainId).map(record => record.name).join(', ') || 'none';
+    throw new CommandError(
+      'notFound',
+      'DEPLOYMENT_NOT_FOUND',
+      `Deployment "${name}" not found for chain ID ${chainId}. Available deployments: ${available}`
+    );
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Returns the name of the active deployment on a chain, if one was selected
+ */
+export function getActiveDeploymentName(chainId: number): string | undefined {
+  return readActive()[String(chainId)];
+}
+
+/**
+ * Marks a deployment as the one scripts use by default on its chain
+ */
+export function useDeployment(chainId: number, name: string): DeploymentRecord {
+  const record = getDeployment(chainId, name);
+  const active = readActive();
+  active[String(chainId)] = name;
+  fs.mkdirSync(deploymentsDir(), { recursive: true });
+  fs.writeFileSync(activeFile(), `${JSON.stringify(active, null, 2)}\n`);
+  return record;
+}
+
+/**
+ * Resolves which deployment a script acts on: --deployment, then DEPLOYMENT, then the active deployment
+ */
+export function resolveDeployment(chainId: number, argv: string[] = process.argv): DeploymentRecord {
+  const name = parseDeploymentArg(argv) || process.env.DEPLOYMENT || getActiveDeploymentName(chainId);
+  if (!name) {
+    throw new CommandError(
+      'notFound',
+      'DEPLOYMENT_NOT_FOUND',
+      `No deployment selected for chain ID ${chainId}. Deploy with deploy:prod, or pick one with "pnpm deployments use <name>".`
+    );
+  }
+  return getDeployment(chainId, name);
+}
+
+/**
+ * Overwrites an existing deployment record, e.g. after filling in a missing field
+ */
+export function saveDeployment(record: DeploymentRecord): void {
+  fs.writeFileSync(deploymentRecordPath(record), `${JSON.stringify(record, null, 2)}\n`);
+}
+
+/**
+ * Absolute path of the record file for a deployment
+ */
+export function deploymentRecordPath(record: DeploymentRecord): string {
+  return recordPath(record.chainId, record.name);
+}
+
+/**
+ * Points forge scripts that read DEPLOYMENT_FILE, such as the renounce script, at the selected deployment record
+ */
+export function exportDeploymentFile(chainId: number, argv: string[] = process.argv): DeploymentRecord {
+  const record = resolveDeployment(chainId, argv);
+  process.env.DEPLOYMENT_FILE = deploymentRecordPath(record);
+  return record;
+}
+
+/**
+ * The entry of a contract that a salted Deploy.s.sol run found at its predicted address and reused, so the
+ * broadcast has no creation transaction for it
+ */
+function reusedContract(predicted: PredictedContract, artifact: ContractArtifact): ContractDeployment {
+  return {
+    contractName: predicted.contractName,
+    address: predicted.address,
+    blockNumber: null,
+    transactionHash: null,
+    constructorArgs: getConstructorInputs(artifact.abi).map((param, i) => formatBroadcastArgument(predicted.constructorArgs[i], param))
+  };
+}
+
+/**
+ * Builds a registry entry from forge's run-latest.json for Deploy.s.sol and saves it as the active deployment
+ */
+export function recordDeployment(chainId: number, networkName: string, name?: string): DeploymentRecord {
+  const runFile = path.join(broadcastDir(chainId), 'run-latest.json');
+  if (!fs.existsSync(runFile)) {
+    throw new Error(`Broadcast file ${runFile} not found. Run deploy:prod first.`);
+  }
+  const run = JSON.parse(fs.readFileSync(runFile, 'utf8'));
+
+  const receipts: any[] = run.receipts || [];
+  const toContractDeployment = (tx: any): ContractDeployment => {
+    const receipt = receipts.find(r => r.transactionHash === tx.hash);
+    return {
+      contractName: tx.contractName,
+      address: ethers.getAddress(tx.contractAddress),
+      blockNumber: receipt?.blockNumber !== undefined ? Number(receipt.blockNumber) : null,
+      transactionHash: tx.hash,
+      constructorArgs: tx.arguments || []
+    };
+  };
+
+  // Deterministic deployments (a "salt" in deploy.config.json) are CREATE2 transactions through the factory
+  const creations = (run.transactions || []).filter((tx: any) => ['CREATE', 'CREATE2'].includes(tx.transactionType));
+  const tokenTx = creations.find((tx: any) => tx.contractName === TOKEN_CONTRACT_NAME);
+  const governorTx = creations.find((tx: any) => tx.contractName === GOVERNOR_CONTRACT_NAME);
+  let token: ContractDeployment | undefined = tokenTx && toContractDeployment(tokenTx);
+  let governor: ContractDeployment | undefined = governorTx && toContractDeployment(governorTx);
+  let deployer: string | undefined = (tokenTx ?? governorTx)?.transaction.from;
+
+  // With a salt, Deploy.s.sol reuses contracts that already have code at their predicted addresses and sends
+  // no transaction for them. It writes the addresses it used and the deployer to out/deployed.config.json.
+  if (!token || !governor) {
+    const deployedFile = path.join(process.cwd(), 'out', 'deployed.config.json');
+    const config = loadDeployConfig();
+    if (!config.salt || !fs.existsSync(deployedFile)) {
+      throw new Error(`Failed to find governor or token creation in ${runFile}`);
+    }
+    const deployed = JSON.parse(fs.readFileSync(deployedFile, 'utf8'));
+    deployer ??= deployed.metadata.deployer as string;
+    const artifacts = { token: loadArtifact(TOKEN_CONTRACT_NAME), governor: loadArtifact(GOVERNOR_CONTRACT_NAME) };
+    const prediction = predictDeployment(config, deployer, artifacts);
+    for (const key of ['token', 'governor'] as const) {
+      if (ethers.getAddress(deployed[key]._address) !== prediction[key].address) {
+        throw new Error(
+          `${deployedFile} lists the ${key} at ${deployed[key]._address}, not at its predicted address ${prediction[key].address}. ` +
+            'Record the deployment before changing deploy.config.json.'
+        );
+      }
+    }
+    token ??= reusedContract(prediction.token, artifacts.token);
+    governor ??= reusedContract(prediction.governor, artifacts.governor);
+  }
+
+  // A salted run that reused both contracts of an earlier deployment selects that record instead of duplicating it
+  const existing = listDeployments(chainId).find(
+    record => record.contracts.token.address === token.address && record.contracts.governor.address === governor.address
+  );
+  if (existing) {
+    console.log(`Contracts are already recorded as deployment "${existing.name}", using it`);
+    return useDeployment(chainId, existing.name);
+  }
+
+  const artifact = JSON.parse(
+    fs.readFileSync(path.join(process.cwd(), 'out', `${token.contractName}.sol`, `${token.contractName}.json`), 'utf8')
+  );
+  const config = fs.readFileSync(path.join(process.cwd(), 'deploy.config.json'));
+
+  // forge records string arguments quoted
+  const recordedSymbol = parseBroadcastArgument(token.constructorArgs[1], ethers.ParamType.from('string')) as string | undefined;
+  const symbol = (recordedSymbol || 'dao').replace(/[^a-zA-Z0-9]+/g, '-').toLowerCase();
+  const record: DeploymentRecord = {
+    name: name || `${symbol}-${run.timestamp ?? Math.floor(Date.now() / 1000)}`,
+    network: networkName,
+    chainId,
+    createdAt: new Date().toISOString(),
+    deployer: ethers.getAddress(deployer!),
+    compilerVersion: artifact.metadata.compiler.version,
+    configHash: ethers.keccak256(config),
+    broadcastFile: path.relative(process.cwd(), runFile),
+    contracts: { token, governor }
+  };
+
+  const file = recordPath(chainId, record.name);
+  if (fs.existsSync(file)) {
+    throw new Error(`Deployment "${record.name}" already exists for chain ID ${chainId}`);
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(record, null, 2)}\n`);
+  useDeployment(chainId, record.name);
+
+  return record;
+}
+
+/**
+ * Prints a deployment record
+ */
+function printDeployment(record: DeploymentRecord) {
+  console.log(`Deployment: ${record.name} (${record.network}, chain ID ${record.chainId})`);
+  console.log(`Created at: ${record.createdAt}`);
+  console.log(`Deployer: ${record.deployer}`);
+  console.log(`Compiler: ${record.compilerVersion}`);
+  console.log(`Config hash: ${record.configHash}`);
+  for (const contract of Object.values(record.contracts)) {
+    console.log(`${contract.contractName}: ${contract.address}`);
+    console.log(`  block: ${contract.blockNumber ?? 'unknown'}, tx: ${contract.transactionHash ?? 'none (reused)'}`);
+    console.log(`  constructor args: ${JSON.stringify(contract.constructorArgs)}`);
+  }
+}
+
+const showHelp = () => {
+  console.log(`
+Usage:
+  pnpm deployments <command> [--network <name>]
+
+Commands:
+  list             List recorded deployments for the network
+  show [name]      Show a deployment (default: the active one)
+  use <name>       Make a deployment the default for every script on the network
+  record [--name]  Record the latest Deploy.s.sol broadcast (run automatically by deploy:prod)
+  path [name]      Print the record file path of a deployment
+  `);
+};
+
+// Main function
+export const main = () => {
+  setupOutput();
+  const [command, ...rest] = process.argv.slice(2);
+  const positional = getPositionals(rest, ['--network', '--deployment', '--name']);
+
+  try {
+    const network = resolveNetwork();
+
+    switch (command) {
+      case 'list': {
+        const active = getActiveDeploymentName(network.chainId);
+        const records = listDeployments(network.chainId);
+        if (records.length === 0) {
+          console.log(`No deployments recorded for chain ID ${network.chainId}`);
+        }
+        for (const record of records) {
+          const marker = record.name === active ? '*' : ' ';
+          console.log(`${marker} ${record.name}  ${record.createdAt}  governor ${record.contracts.governor.address}`);
+        }
+        finish('deployments', { chainId: network.chainId, active: active ?? null, deployments: records.map(record => record.name) });
+        return;
+      }
+      case 'show': {
+        const record = positional[0] ? getDeployment(network.chainId, positional[0]) : resolveDeployment(network.chainId);
+        printDeployment(record);
+        finish('deployments', { deployment: record });
+        return;
+      }
+      case 'use': {
+        if (!positional[0]) {
+          throw new CommandError('invalid', 'ARGUMENT_INVALID', 'Usage: pnpm deployments use <name>');
+        }
+        const record = useDeployment(network.chainId, positional[0]);
+        console.log(`✅ Using deployment ${record.name} on chain ID ${record.chainId}`);
+        finish('deployments', { deployment: record.name });
+        return;
+      }
+      case 'record': {
+        const record = recordDeployment(network.chainId, network.name, getFlag(rest, '--name'));
+        console.log(`✅ Recorded deployment ${record.name} at ${deploymentRecordPath(record)}`);
+        finish('deployments', { deployment: record.name, path: deploymentRecordPath(record) });
+        return;
+      }
+      case 'path': {
+        const record = positional[0] ? getDeployment(network.chainId, positional[0]) : resolveDeployment(network.chainId);
+        console.log(deploymentRecordPath(record));
+        finish('deployments', { deployment: record.name, path: deploymentRecordPath(record) });
+        return;
+      }
+      default:
+        showHelp();
+        process.exit(command ? 1 : 0);
+    }
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    fail('deployments', error);
+  }
+};
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,467 @@
+#!/usr/bin/env ts-node
+import * as fs from 'fs';
+import * as path from 'path';
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { getFlag, getPositionals } from './args';
+import { loadArtifact } from './artifacts';
+import { readCsv } from './csv';
+import { DeploymentRecord, resolveDeployment } from './deployments';
+import { resolveNetwork } from './networks';
+import { fail, finish, setupOutput } from './output';
+import { confirm } from './prompt';
+import { getSigner } from './signer';
+import { describeError } from './tx';
+import { formatTokenAmount } from './validate-config';
+
+// Load environment variables
+dotenv.config({ path: process.env.ENV_FILE });
+
+// Check if debug mode is enabled
+const DEBUG = process.env.DEBUG === 'true';
+
+// Define ANSI color codes for console output
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+};
+
+const VALUE_FLAGS = ['--network', '--deployment', '--batch-size', '--state'];
+const DEFAULT_BATCH_SIZE = 20;
+
+export interface Allocation {
+  address: string;
+  amount: bigint;
+}
+
+// `sending` is saved with the nonce before a mint is sent, `sent` once the node returned its hash
+type RecipientStatus = 'pending' | 'sending' | 'sent' | 'confirmed';
+
+export interface RecipientState {
+  address: string;
+  amount: string;
+  balanceBefore: string;
+  status: RecipientStatus;
+  txHash?: string;
+  nonce?: number;
+  // Block the mint was sent after, where a resume looks for its Transfer event
+  fromBlock?: number;
+  blockNumber?: number;
+}
+
+/**
+ * Progress of a distribution, saved before and after every send so an interrupted run can resume
+ */
+export interface DistributionState {
+  deployment: string;
+  chainId: number;
+  token: string;
+  sender: string;
+  // The sender's next nonce when the distribution started
+  startNonce?: number;
+  allocationFile: string;
+  allocationHash: string;
+  recipients: RecipientState[];
+}
+
+/**
+ * Reads an allocation file: CSV with address,amount columns, a JSON array of {address, amount}
+ * or a JSON object of address => amount. Amounts are decimal token amounts.
+ */
+export function readAllocations(file: string, decimals: number): Allocation[] {
+  let rows: { address: string; amount: string; source: string }[];
+  if (/\.csv$/i.test(file)) {
+    rows = readCsv(file).map((row, i) => ({ address: row.address, amount: row.amount, source: `row ${i + 1}` }));
+  } else {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    rows = Array.isArray(parsed)
+      ? parsed.map((entry: any, i: number) => ({ address: entry.address, amount: String(entry.amount), source: `entry ${i}` }))
+      : Object.entries(parsed).map(([address, amount]) => ({ address, amount: String(amount), source: address }));
+  }
+
+  const errors: string[] = [];
+  const byAddress = new Map<string, Allocation>();
+
+  for (const row of rows) {
+    if (!row.address || !ethers.isAddress(row.address)) {
+      errors.push(`${row.source}: "${row.address}" is not a valid address`);
+      continue;
+    }
+    if (ethers.getAddress(row.address) === ethers.ZeroAddress) {
+      errors.push(`${row.source}: cannot mint to the zero address`);
+      continue;
+    }
+    if (!row.amount || !/^\d+(\.\d+)?$/.test(row.amount)) {
+      errors.push(`${row.source}: amount "${row.amount}" must be a decimal token amount`);
+      continue;
+    }
+
+    let amount: bigint;
+    try {
+      amount = ethers.parseUnits(row.amount, decimals);
+    } catch (error) {
+      errors.push(`${row.source}: amount "${row.amount}" has more than ${decimals} decimals`);
+      continue;
+    }
+    if (amount === 0n) {
+      errors.push(`${row.source}: amount must be greater than zero`);
+      continue;
+    }
+
+    const address = ethers.getAddress(row.address);
+    const existing = byAddress.get(address);
+    if (existing) {
+      if (existing.amount !== amount) {
+        errors.push(`${row.source}: ${address} is listed twice with different amounts`);
+      } else {
+        console.warn(`${colors.yellow}Warning: ${row.source}: duplicate entry for ${address} skipped${colors.reset}`);
+      }
+      continue;
+    }
+    byAddress.set(address, { address, amount });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid allocation file:\n  - ${errors.join('\n  - ')}`);
+  }
+  return [...byAddress.values()];
+}
+
+/**
+ * Hashes the validated allocations so a state file is never resumed against a different list
+ */
+function hashAllocations(allocations: Allocation[]): string {
+  return ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ['address[]', 'uint256[]'],
+      [allocations.map(a => a.address), allocations.map(a => a.amount)]
+    )
+  );
+}
+
+const defaultStatePath = (deployment: DeploymentRecord) =>
+  path.join(process.cwd(), 'distributions', String(deployment.chainId), `${deployment.name}.state.json`);
+
+function saveState(statePath: string, state: DistributionState) {
+  fs.mkdirSync(path.dirname(statePath), { recursive: true });
+  // Written to a temporary file first, so a crash mid-write never leaves a truncated state
+  fs.writeFileSync(`${statePath}.tmp`, `${JSON.stringify(state, null, 2)}\n`);
+  fs.renameSync(`${statePath}.tmp`, statePath);
+}
+
+// Transfer(address,address,uint256), which the token emits from the zero address on mint
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+/**
+ * Finds the Transfer event of a recipient's mint, for a send whose hash was never saved or was replaced
+ */
+async function findMint(provider: ethers.Provider, state: DistributionState, recipient: RecipientState): Promise<ethers.Log | undefined> {
+  const logs = await provider.getLogs({
+    address: state.token,
+    topics: [TRANSFER_TOPIC, ethers.zeroPadValue(ethers.ZeroAddress, 32), ethers.zeroPadValue(recipient.address, 32)],
+    fromBlock: recipient.fromBlock ?? 0,
+    toBlock: 'latest'
+  });
+  return logs.find(log => BigInt(log.data) === BigInt(recipient.amount));
+}
+
+const resetRecipient = (recipient: RecipientState) => {
+  recipient.status = 'pending';
+  delete recipient.txHash;
+  delete recipient.nonce;
+  delete recipient.fromBlock;
+};
+
+/**
+ * Reconciles recipients whose mint was being sent or was sent in an earlier run: confirmed if it was mined,
+ * pending again if its nonce was never used or was used by another transaction. Aborts while a transaction
+ * with its nonce is still in the mempool, and when the sender sent transactions the state does not know about.
+ */
+export async function reconcileSent(provider: ethers.Provider, state: DistributionState, statePath: string) {
+  for (const recipient of state.recipients.filter(r => r.status === 'sending' || r.status === 'sent')) {
+    const receipt = recipient.txHash ? await provider.getTransactionReceipt(recipient.txHash) : null;
+    if (receipt) {
+      if (receipt.status === 1) {
+        recipient.status = 'confirmed';
+        recipient.blockNumber = receipt.blockNumber;
+      } else {
+        resetRecipient(recipient);
+      }
+      continue;
+    }
+
+    const minedNonce = await provider.getTransactionCount(state.sender, 'latest');
+    if (minedNonce > recipient.nonce!) {
+      // The nonce is taken: by this mint if the token logged it (possibly from a replaced transaction), else by another transaction
+      const mint = await findMint(provider, state, recipient);
+      if (mint) {
+        recipient.status = 'confirmed';
+        recipient.txHash = mint.transactionHash;
+        recipient.blockNumber = mint.blockNumber;
+      } else {
+        resetRecipient(recipient);
+      }
+      continue;
+    }
+
+    const pendingNonce = await provider.getTransactionCount(state.sender, 'pending');
+    if (pendingNonce <= recipient.nonce!) {
+      // Nothing with this nonce reached the node, so the mint was never broadcast
+      resetRecipient(recipient);
+      continue;
+    }
+    if (!recipient.txHash) {
+      throw new Error(
+        `A transaction with nonce ${recipient.nonce} from ${state.sender} is pending and may be the mint to ${recipient.address}. ` +
+          'Re-run once it is mined or dropped.'
+      );
+    }
+    console.log(`Waiting for earlier mint to ${recipient.address} (${recipient.txHash})...`);
+    const mined = await provider.waitForTransaction(recipient.txHash, 1, 120_000);
+    if (!mined) {
+      throw new Error(`Mint ${recipient.txHash} to ${recipient.address} is still pending. Re-run once it is mined or dropped.`);
+    }
+    if (mined.status === 1) {
+      recipient.status = 'confirmed';
+      recipient.blockNumber = mined.blockNumber;
+    } else {
+      resetRecipient(recipient);
+    }
+  }
+  saveState(statePath, state);
+
+  // Any nonce beyond the ones we recorded, or beyond the start nonce when none was, means a send that was not saved
+  const knownNonces = state.recipients.filter(r => r.nonce !== undefined).map(r => r.nonce!);
+  const expected = knownNonces.length > 0 ? Math.max(...knownNonces) + 1 : state.startNonce;
+  if (expected !== undefined) {
+    const pendingNonce = await provider.getTransactionCount(state.sender, 'pending');
+    if (pendingNonce > expected) {
+      throw new Error(
+        `${state.sender} sent ${pendingNonce - expected} transaction(s) that are not in ${statePath}. ` +
+          'Check them for mints before resuming to avoid minting twice.'
+      );
+    }
+  }
+}
+
+/**
+ * Mints to every pending recipient in batches. Each recipient is saved with its nonce before the mint is sent
+ * and with its hash after, so a resume can tell whether a send that was interrupted went out.
+ */
+async function mintInBatches(
+  token: ethers.Contract,
+  provider: ethers.Provider,
+  signer: ethers.Signer,
+  state: DistributionState,
+  statePath: string,
+  batchSize: number
+) {
+  const connected = token.connect(signer) as ethers.Contract;
+  const pending = state.recipients.filter(r => r.status === 'pending');
+  let nonce = await provider.getTransactionCount(state.sender, 'pending');
+  state.startNonce ??= nonce;
+
+  for (let start = 0; start < pending.length; start += batchSize) {
+    const batch = pending.slice(start, start + batchSize);
+    console.log(`\nBatch ${start / batchSize + 1}/${Math.ceil(pending.length / batchSize)} (${batch.length} mints)`);
+    const fromBlock = await provider.getBlockNumber();
+
+    const sent: { recipient: RecipientState; tx: ethers.ContractTransactionResponse }[] = [];
+    for (const recipient of batch) {
+      recipient.status = 'sending';
+      recipient.nonce = nonce;
+      recipient.fromBlock = fromBlock;
+      saveState(statePath, state);
+
+      const tx = await connected.mint(recipient.address, BigInt(recipient.amount), { nonce });
+      recipient.status = 'sent';
+      recipient.txHash = tx.hash;
+      saveState(statePath, state);
+      sent.push({ recipient, tx });
+      nonce++;
+      if (DEBUG) {
+        console.log(`  Sent mint to ${recipient.address}: ${tx.hash} (nonce ${tx.nonce})`);
+      }
+    }
+
+    for (const { recipient, tx } of sent) {
+      const receipt = await tx.wait();
+      if (receipt?.status !== 1) {
+        throw new Error(`Mint to ${recipient.address} failed in ${tx.hash}`);
+      }
+      recipient.status = 'confirmed';
+      recipient.blockNumber = receipt.blockNumber;
+      saveState(statePath, state);
+      console.log(`  ${colors.green}✓${colors.reset} ${recipient.address} ${formatTokenAmount(BigInt(recipient.amount))}`);
+    }
+  }
+}
+
+/**
+ * Checks every recipient's balance equals its balance before the distribution plus its allocation
+ */
+async function reconcileBalances(token: ethers.Contract, state: DistributionState): Promise<number> {
+  let mismatches = 0;
+  for (const recipient of state.recipients) {
+    const expected = BigInt(recipient.balanceBefore) + BigInt(recipient.amount);
+    const balance: bigint = await token.balanceOf(recipient.address);
+    if (balance !== expected) {
+      mismatches++;
+      console.log(
+        `  ${colors.red}✗${colors.reset} ${recipient.address}: balance ${formatTokenAmount(balance)}, expected ${formatTokenAmount(expected)}`
+      );
+    }
+  }
+  return mismatches;
+}
+
+/**
+ * Reads --batch-size, failing before anything is read from the chain or saved
+ */
+export function parseBatchSize(argv: string[]): number {
+  const batchSize = Number(getFlag(argv, '--batch-size') || DEFAULT_BATCH_SIZE);
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error('--batch-size must be a positive integer');
+  }
+  return batchSize;
+}
+
+const showHelp = () => {
+  console.log(`
+${colors.cyan}Initial Token Distribution${colors.reset}
+${colors.yellow}Usage:${colors.reset}
+  pnpm distribute <allocations.csv|allocations.json> [options]
+
+The allocation file lists whole-token amounts, as a CSV with address,amount columns,
+a JSON array of {"address", "amount"} objects or a JSON object of address => amount.
+
+${colors.yellow}Options:${colors.reset}
+  --batch-size <n>       Mints sent before waiting for receipts (default: ${DEFAULT_BATCH_SIZE})
+  --state <file>         Progress file (default: distributions/<chainId>/<deployment>.state.json)
+  --dry-run              Validate and show totals without minting
+  --yes                  Skip the confirmation prompt
+  --network <name>       Network profile from networks.config.json
+  --deployment <name>    Deployment to mint on (default: the active deployment)
+  `);
+};
+
+/**
+ * Mints the allocations of a file to its recipients, resuming the distribution saved in its state file.
+ * Resolves with whether every recipient holds its allocation, false after a dry run or a declined prompt.
+ */
+export async function distribute(file: string, argv: string[] = process.argv): Promise<boolean> {
+  const batchSize = parseBatchSize(argv);
+  const network = resolveNetwork();
+  const deployment = resolveDeployment(network.chainId);
+  const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+  const signer = await getSigner(provider);
+  const senderAddress = await signer.getAddress();
+  const token = new ethers.Contract(deployment.contracts.token.address, loadArtifact('UngovernableERC20').abi, provider);
+
+  const [symbol, decimals, owner, totalSupply] = await Promise.all([
+    token.symbol(),
+    token.decimals(),
+    token.owner(),
+    token.totalSupply()
+  ]);
+
+  const allocationFile = path.resolve(process.cwd(), file);
+  const allocations = readAllocations(allocationFile, Number(decimals));
+  const allocationHash = hashAllocations(allocations);
+  const total = allocations.reduce((sum, a) => sum + a.amount, 0n);
+
+  console.log(`Token: ${symbol} at ${deployment.contracts.token.address} (deployment ${deployment.name})`);
+  console.log(`Recipients: ${allocations.length}`);
+  console.log(`Total to mint: ${formatTokenAmount(total)} ${symbol}`);
+  console.log(`Supply now: ${formatTokenAmount(totalSupply)} ${symbol}`);
+  console.log(`Supply after mint: ${formatTokenAmount(totalSupply + total)} ${symbol}`);
+
+  if (owner !== senderAddress) {
+    throw new Error(`Only the token owner can mint. Owner is ${owner}, sender is ${senderAddress}`);
+  }
+
+  const statePath = path.resolve(process.cwd(), getFlag(argv, '--state') || defaultStatePath(deployment));
+  let state: DistributionState;
+  if (fs.existsSync(statePath)) {
+    state = JSON.parse(fs.readFileSync(statePath, 'utf8'));
+    if (state.allocationHash !== allocationHash || state.token !== deployment.contracts.token.address) {
+      throw new Error(`${statePath} belongs to a different allocation list or token. Move it away to start over.`);
+    }
+    if (state.sender !== senderAddress) {
+      throw new Error(`${statePath} was started by ${state.sender}, not ${senderAddress}`);
+    }
+    console.log(`Resuming from ${statePath}`);
+    await reconcileSent(provider, state, statePath);
+  } else {
+    const balances: bigint[] = await Promise.all(allocations.map(a => token.balanceOf(a.address)));
+    state = {
+      deployment: deployment.name,
+      chainId: network.chainId,
+      token: deployment.contracts.token.address,
+      sender: senderAddress,
+      allocationFile: path.relative(process.cwd(), allocationFile),
+      allocationHash,
+      recipients: allocations.map((a, i) => ({
+        address: a.address,
+        amount: a.amount.toString(),
+        balanceBefore: balances[i].toString(),
+        status: 'pending'
+      }))
+    };
+  }
+
+  const remaining = state.recipients.filter(r => r.status === 'pending');
+  const remainingTotal = remaining.reduce((sum, r) => sum + BigInt(r.amount), 0n);
+  console.log(`Already minted: ${state.recipients.length - remaining.length}/${state.recipients.length}`);
+
+  if (argv.includes('--dry-run')) {
+    console.log('\nDry run, not minting.');
+    return false;
+  }
+
+  if (remaining.length > 0) {
+    if (!(await confirm(`\nMint ${formatTokenAmount(remainingTotal)} ${symbol} to ${remaining.length} recipient(s)?`, argv))) {
+      console.log('Aborted.');
+      return false;
+    }
+    saveState(statePath, state);
+    await mintInBatches(token, provider, signer, state, statePath, batchSize);
+  }
+
+  console.log('\nReconciling balances...');
+  const mismatches = await reconcileBalances(token, state);
+  if (mismatches > 0) {
+    throw new Error(`${mismatches} recipient balance(s) do not match the allocation`);
+  }
+  console.log(`${colors.green}✅ All ${state.recipients.length} recipients hold their allocation${colors.reset}`);
+  return true;
+}
+
+// Main function
+export const main = async () => {
+  setupOutput();
+  const argv = process.argv;
+  const [file] = getPositionals(argv.slice(2), VALUE_FLAGS);
+  if (!file || argv.includes('--help')) {
+    showHelp();
+    process.exit(file ? 0 : 1);
+  }
+
+  try {
+    finish('distribute', { allocationFile: file, distributed: await distribute(file, argv) });
+  } catch (error: any) {
+    console.error(`${colors.red}Error: ${describeError(error)}${colors.reset}`);
+    if (DEBUG) {
+      console.error(error);
+    }
+    fail('distribute', error);
+  }
+};
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,222 @@
+#!/usr/bin/env ts-node
+import * as fs from 'fs';
+import * as path from 'path';
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { getFlag } from './args';
+import { broadcastDir, resolveNetwork } from './networks';
+import { CommandError, fail, finish, setupOutput } from './output';
+
+// Load environment variables
+dotenv.config({ path: process.env.ENV_FILE });
+
+// Check if debug mode is enabled
+const DEBUG = process.env.DEBUG === 'true';
+
+// Define ANSI color codes for console output
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+/**
+ * One simulated transaction from forge's dry-run/run-latest.json
+ */
+export interface DryRunTransaction {
+  script: string;
+  type: string;
+  contractName: string | null;
+  description: string;
+  from: string;
+  to: string | null;
+  contractAddress: string | null;
+  gas: bigint;
+  value: bigint;
+}
+
+export interface FeeEstimate {
+  baseFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface DryRunReport {
+  transactions: (DryRunTransaction & { cost: bigint; maxCost: bigint })[];
+  totalGas: bigint;
+  // At the current base fee plus priority fee
+  totalCost: bigint;
+  // If the base fee doubles before the transactions are mined, as wallets budget for
+  maxTotalCost: bigint;
+  predictedAddresses: Record<string, string>;
+}
+
+/**
+ * Path of the dry-run broadcast file forge writes for a script simulated without --broadcast
+ */
+export function dryRunFile(chainId: number, script: string): string {
+  return path.join(broadcastDir(chainId, script), 'dry-run', 'run-latest.json');
+}
+
+/**
+ * Reads the simulated transactions of a script from its dry-run broadcast file
+ */
+export function readDryRun(file: string, script: string): DryRunTransaction[] {
+  if (!fs.existsSync(file)) {
+    throw new CommandError('notFound', 'DRY_RUN_NOT_FOUND', `Dry-run file ${file} not found. Run pnpm deploy:test first.`);
+  }
+  const run = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return (run.transactions || []).map((tx: any): DryRunTransaction => {
+    const isCreation = tx.transactionType === 'CREATE' || tx.transactionType === 'CREATE2';
+    return {
+      script,
+      type: tx.transactionType,
+      contractName: tx.contractName ?? null,
+      description: isCreation ? `${tx.contractName ?? 'contract'} ${tx.transactionType}` : `${tx.contractName ?? tx.transaction.to}.${tx.function ?? 'call'}`,
+      from: ethers.getAddress(tx.transaction.from),
+      to: tx.transaction.to ? ethers.getAddress(tx.transaction.to) : null,
+      contractAddress: isCreation && tx.contractAddress ? ethers.getAddress(tx.contractAddress) : null,
+      gas: BigInt(tx.transaction.gas ?? 0),
+      value: BigInt(tx.transaction.value ?? 0)
+    };
+  });
+}
+
+/**
+ * Prices the simulated transactions at the given fees
+ */
+export function buildDryRunReport(transactions: DryRunTransaction[], fees: FeeEstimate): DryRunReport {
+  const gasPrice = fees.baseFeePerGas + fees.maxPriorityFeePerGas;
+  const maxGasPrice = fees.baseFeePerGas * 2n + fees.maxPriorityFeePerGas;
+
+  const priced = transactions.map(tx => ({
+    ...tx,
+    cost: tx.gas * gasPrice + tx.value,
+    maxCost: tx.gas * maxGasPrice + tx.value
+  }));
+
+  const predictedAddresses: Record<string, string> = {};
+  for (const tx of transactions) {
+    if (tx.contractAddress) {
+      predictedAddresses[tx.contractName ?? tx.contractAddress] = tx.contractAddress;
+    }
+  }
+
+  return {
+    transactions: priced,
+    totalGas: priced.reduce((sum, tx) => sum + tx.gas, 0n),
+    totalCost: priced.reduce((sum, tx) => sum + tx.cost, 0n),
+    maxTotalCost: priced.reduce((sum, tx) => sum + tx.maxCost, 0n),
+    predictedAddresses
+  };
+}
+
+/**
+ * Reads the current base fee and priority fee from the RPC
+ */
+async function getFees(provider: ethers.JsonRpcProvider): Promise<FeeEstimate> {
+  const [block, feeData] = await Promise.all([provider.getBlock('latest'), provider.getFeeData()]);
+  const baseFeePerGas = block?.baseFeePerGas ?? feeData.gasPrice;
+  if (baseFeePerGas === null || baseFeePerGas === undefined) {
+    throw new Error('The RPC returned neither a base fee nor a gas price');
+  }
+  return { baseFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? 0n };
+}
+
+const formatGwei = (wei: bigint) => `${Number(ethers.formatUnits(wei, 'gwei')).toFixed(3)} gwei`;
+
+/**
+ * Prints the report as a table of transactions followed by totals
+ */
+function printReport(report: DryRunReport, fees: FeeEstimate, currency: string) {
+  const rows = report.transactions.map((tx, i) => [
+    String(i + 1),
+    tx.script,
+    tx.description,
+    tx.gas.toString(),
+    `${ethers.formatEther(tx.cost)} ${currency}`
+  ]);
+  const header = ['#', 'Script', 'Transaction', 'Gas', 'Cost'];
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ');
+
+  console.log(`Base fee: ${formatGwei(fees.baseFeePerGas)}, priority fee: ${formatGwei(fees.maxPriorityFeePerGas)}\n`);
+  console.log(`${colors.cyan}${line(header)}${colors.reset}`);
+  rows.forEach(row => console.log(line(row)));
+
+  console.log(`\nTotal gas:  ${report.totalGas}`);
+  console.log(`Total cost: ${ethers.formatEther(report.totalCost)} ${currency} (up to ${ethers.formatEther(report.maxTotalCost)} ${currency} if the base fee doubles)`);
+
+  if (Object.keys(report.predictedAddresses).length > 0) {
+    console.log(`\n${colors.cyan}Predicted addresses${colors.reset} (plain CREATE addresses assume the deployer nonce does not change before broadcasting)`);
+    for (const [contract, address] of Object.entries(report.predictedAddresses)) {
+      console.log(`  ${contract}: ${address}`);
+    }
+  }
+}
+
+// Main function
+export const main = async () => {
+  setupOutput();
+  const argv = process.argv;
+
+  try {
+    const network = resolveNetwork();
+    const currency = network.nativeCurrency ?? 'ETH';
+    const scripts = (getFlag(argv, '--scripts') ?? 'Deploy.s.sol').split(',').map(script => script.trim());
+    const transactions = scripts.flatMap(script => readDryRun(dryRunFile(network.chainId, script), script));
+    if (transactions.length === 0) {
+      throw new CommandError('notFound', 'DRY_RUN_EMPTY', 'The dry run has no transactions to report');
+    }
+
+    const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+    const fees = await getFees(provider);
+    const report = buildDryRunReport(transactions, fees);
+    if (DEBUG) {
+      console.log('Fees:', fees);
+    }
+
+    console.log(`${colors.cyan}Dry run on ${network.name} (chain ID ${network.chainId})${colors.reset}`);
+    printReport(report, fees, currency);
+
+    // Every transaction must be paid for by its sender
+    const senders = [...new Set(transactions.map(tx => tx.from))];
+    const balances: Record<string, bigint> = {};
+    const shortfalls: { code: string; message: string }[] = [];
+    console.log('');
+    for (const sender of senders) {
+      balances[sender] = await provider.getBalance(sender);
+      const needed = report.transactions.filter(tx => tx.from === sender);
+      const cost = needed.reduce((sum, tx) => sum + tx.cost, 0n);
+      const maxCost = needed.reduce((sum, tx) => sum + tx.maxCost, 0n);
+      const balance = `${ethers.formatEther(balances[sender])} ${currency}`;
+
+      if (balances[sender] < cost) {
+        console.log(`${colors.red}❌ ${sender} has ${balance}, needs ${ethers.formatEther(cost)} ${currency}${colors.reset}`);
+        shortfalls.push({ code: 'INSUFFICIENT_BALANCE', message: `${sender} has ${balance}, needs ${ethers.formatEther(cost)} ${currency}` });
+      } else if (balances[sender] < maxCost) {
+        console.log(`${colors.yellow}⚠️ ${sender} has ${balance}, enough at current fees but not if the base fee doubles (${ethers.formatEther(maxCost)} ${currency})${colors.reset}`);
+      } else {
+        console.log(`${colors.green}✅ ${sender} has ${balance}, enough for these transactions${colors.reset}`);
+      }
+    }
+
+    finish(
+      'deploy:report',
+      { network: network.name, chainId: network.chainId, fees, ...report, balances },
+      shortfalls.length > 0 ? 'checkFailed' : undefined,
+      shortfalls
+    );
+  } catch (error: any) {
+    console.error(`${colors.red}Error: ${error.message}${colors.reset}`);
+    if (DEBUG) {
+      console.error(error);
+    }
+    fail('deploy:report', error);
+  }
+};
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,24 @@
+import { execFileSync } from 'child_process';
+import { CommandError, isJsonOutput } from './output';
+import { forgeSignerArgs } from './signer';
+
+/**
+ * Runs a forge script against CHAIN_ID/RPC_URL with the configured signer, or against SIGNER_RPC_URL when
+ * that signer sends forge's transactions. forge is run without a shell, so wallet options such as a
+ * keystore path with spaces reach it unchanged.
+ */
+export async function forgeScript(script: string, args: string[]) {
+  const signerArgs = await forgeSignerArgs();
+  const rpcArgs = signerArgs.includes('--rpc-url') ? [] : ['--rpc-url', process.env.RPC_URL!];
+  const forgeArgs = ['script', script, '--chain-id', process.env.CHAIN_ID!, ...rpcArgs, ...signerArgs, ...args];
+  if (process.env.DEBUG === 'true') {
+    console.log(`Running forge ${forgeArgs.join(' ')}`);
+  }
+  try {
+    // In --json mode forge's output goes to stderr with the other logs
+    execFileSync('forge', forgeArgs, { stdio: ['inherit', isJsonOutput() ? 2 : 'inherit', 'inherit'] });
+  } catch (error: any) {
+    const reason = typeof error.status === 'number' ? `exited with code ${error.status}` : error.message;
+    throw new CommandError('error', 'FORGE_FAILED', `forge script ${script} ${reason}`);
+  }
+}
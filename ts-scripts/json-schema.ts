@@ -0,0 +1,103 @@
+/**
+ * The subset of JSON Schema (draft-07) used by the config schemas in this repo
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // address: a 0x-prefixed address other than the zero address
+  format?: 'uri' | 'email' | 'address';
+  minimum?: number;
+}
+
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ZERO_ADDRESS = /^0x0{40}$/;
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validates a value against a schema, returning every error with the dotted path it was found at
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = ''): SchemaError[] {
+  const at = path || '(root)';
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [{ path: at, message: `must be ${schema.type === 'integer' || schema.type === 'array' ? 'an' : 'a'} ${schema.type}, got ${typeOf(value)}` }];
+  }
+
+  const errors: SchemaError[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path: at, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path: at, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path: at, message: `"${value}" does not match ${schema.pattern}` });
+    }
+    if (schema.format === 'email' && !EMAIL.test(value)) {
+      errors.push({ path: at, message: `"${value}" is not an email address` });
+    }
+    if (schema.format === 'address' && ZERO_ADDRESS.test(value)) {
+      errors.push({ path: at, message: 'must not be the zero address' });
+    }
+    if (schema.format === 'uri') {
+      try {
+        new URL(value);
+      } catch (error) {
+        errors.push({ path: at, message: `"${value}" is not a URL` });
+      }
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ path: at, message: `must be at least ${schema.minimum}` });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const child = (key: string) => (path ? `${path}.${key}` : key);
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        errors.push({ path: child(key), message: 'is required' });
+      }
+    }
+    for (const [key, property] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateSchema(property, propertySchema, child(key)));
+      } else if (schema.additionalProperties === false) {
+        const known = Object.keys(schema.properties || {}).join(', ');
+        errors.push({ path: child(key), message: `is not a known key (expected one of: ${known})` });
+      }
+    }
+  }
+
+  return errors;
+}
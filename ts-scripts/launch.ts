@@ -0,0 +1,328 @@
+#!/usr/bin/env ts-node
+import * as fs from 'fs';
+import * as path from 'path';
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { getFlag } from './args';
+import { exportDeploymentFile, recordDeployment } from './deployments';
+import { distribute } from './distribute';
+import { forgeScript } from './forge';
+import { broadcastDir, ResolvedNetwork, resolveNetwork } from './networks';
+import { CommandError, fail, finish, setupOutput } from './output';
+import { preflightRenounce } from './preflight-renounce';
+import { publishDao } from './publish-tally';
+import { ownershipStatus, printReport } from './status-ownership';
+import { requireDeployConfig } from './validate-config';
+import { requireEnv } from './validate-env';
+import { verifyDeployedContracts } from './verify-contracts';
+
+// Load environment variables
+dotenv.config({ path: process.env.ENV_FILE });
+
+// Check if debug mode is enabled
+const DEBUG = process.env.DEBUG === 'true';
+
+// Define ANSI color codes for console output
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+/**
+ * The launch steps, in the order they run. The deployment is recorded in a step of its own, so a launch
+ * that broadcast the contracts but failed to record them resumes without deploying again.
+ */
+export const LAUNCH_STEPS = ['validate', 'deploy', 'record', 'verify', 'distribute', 'renounce', 'publish', 'status'] as const;
+
+export type LaunchStepName = (typeof LAUNCH_STEPS)[number];
+
+type StepStatus = 'pending' | 'done' | 'skipped' | 'failed';
+
+interface StepState {
+  status: StepStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  // What the step produced, e.g. the deployment name or the verification results
+  output?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * Progress of a launch, saved after every step so a failed launch resumes where it stopped
+ */
+export interface LaunchState {
+  network: string;
+  chainId: number;
+  configHash: string;
+  // Set by the record step, every later step acts on this deployment
+  deployment?: string;
+  allocationFile?: string;
+  steps: Record<LaunchStepName, StepState>;
+}
+
+export interface LaunchContext {
+  network: ResolvedNetwork;
+  state: LaunchState;
+  argv: string[];
+}
+
+interface LaunchStep {
+  description: string;
+  // Why the step does not apply to this launch, if it does not
+  skip?: (context: LaunchContext) => string | undefined;
+  run: (context: LaunchContext) => Promise<Record<string, unknown>>;
+}
+
+const STEPS: Record<LaunchStepName, LaunchStep> = {
+  validate: {
+    description: 'Validate .env and deploy.config.json',
+    run: async () => {
+      await requireEnv('launch');
+      return { warnings: requireDeployConfig() };
+    }
+  },
+  deploy: {
+    description: 'Deploy the token and governor',
+    run: async () => {
+      // --from deploy skips the validate step, the config is still checked before anything is broadcast
+      requireDeployConfig();
+      await forgeScript('script/Deploy.s.sol', ['--broadcast', '--slow']);
+      return {};
+    }
+  },
+  record: {
+    description: 'Record the deployment',
+    run: async ({ network, state }) => {
+      const deployment = recordDeployment(network.chainId, network.name);
+      state.deployment = deployment.name;
+      process.env.DEPLOYMENT = deployment.name;
+      return {
+        deployment: deployment.name,
+        token: deployment.contracts.token.address,
+        governor: deployment.contracts.governor.address
+      };
+    }
+  },
+  verify: {
+    description: 'Verify the contracts',
+    run: async () => {
+      const { results, failed } = await verifyDeployedContracts();
+      if (failed.length > 0) {
+        throw new CommandError(
+          'checkFailed',
+          'VERIFICATION_FAILED',
+          `${failed.length} of ${results.length} contract(s) failed verification: ${failed.map(result => `${result.contract} (${result.verifier}: ${result.status})`).join(', ')}`
+        );
+      }
+      return { contracts: results };
+    }
+  },
+  distribute: {
+    description: 'Mint the initial token allocations',
+    skip: ({ state }) => (state.allocationFile ? undefined : 'no --allocations file given'),
+    run: async ({ state }) => {
+      // Not the launch's own arguments, its --state is the launch state file
+      if (!(await distribute(state.allocationFile!, []))) {
+        throw new CommandError('error', 'DISTRIBUTION_ABORTED', 'The distribution was not confirmed');
+      }
+      return { allocationFile: state.allocationFile };
+    }
+  },
+  renounce: {
+    description: 'Hand token ownership to the governor',
+    run: async ({ network, argv }) => {
+      exportDeploymentFile(network.chainId);
+      await preflightRenounce(argv);
+      await forgeScript('script/RenounceToGovernance.s.sol', ['--broadcast', '--slow']);
+      const runFile = path.join(broadcastDir(network.chainId, 'RenounceToGovernance.s.sol'), 'run-latest.json');
+      const run = fs.existsSync(runFile) ? JSON.parse(fs.readFileSync(runFile, 'utf8')) : { transactions: [] };
+      return {
+        broadcastFile: path.relative(process.cwd(), runFile),
+        transactions: (run.transactions || []).map((tx: any) => tx.hash)
+      };
+    }
+  },
+  publish: {
+    description: 'Publish the DAO to Tally',
+    skip: ({ network }) => (network.tally ? undefined : `Tally is disabled for ${network.name}`),
+    run: async () => {
+      const { organization, url } = await publishDao();
+      return { organization, url };
+    }
+  },
+  status: {
+    description: 'Check the ownership handover',
+    run: async () => {
+      const report = await ownershipStatus();
+      printReport(report);
+      if (!report.pass) {
+        const failed = report.checks.filter(check => !check.pass).map(check => check.name);
+        throw new CommandError('checkFailed', 'CHECK_FAILED', `Ownership checks failed: ${failed.join(', ')}`);
+      }
+      return { ...report };
+    }
+  }
+};
+
+/**
+ * A fresh state with every step pending
+ */
+export function createLaunchState(network: string, chainId: number, configHash: string): LaunchState {
+  const steps = Object.fromEntries(LAUNCH_STEPS.map(step => [step, { status: 'pending' }])) as LaunchState['steps'];
+  return { network, chainId, configHash, steps };
+}
+
+const parseStep = (name: string, flag: string): LaunchStepName => {
+  if (!(LAUNCH_STEPS as readonly string[]).includes(name)) {
+    throw new CommandError('invalid', 'ARGUMENT_INVALID', `Unknown step "${name}" for ${flag}. Steps: ${LAUNCH_STEPS.join(', ')}`);
+  }
+  return name as LaunchStepName;
+};
+
+/**
+ * Picks the steps to run: the ones named by --only, every step from --from on, or else every step after
+ * the last one that finished
+ */
+export function selectSteps(state: LaunchState, argv: string[]): LaunchStepName[] {
+  const only = getFlag(argv, '--only');
+  const from = getFlag(argv, '--from');
+  if (only && from) {
+    throw new CommandError('invalid', 'ARGUMENT_INVALID', '--only and --from cannot be combined');
+  }
+  if (only) {
+    const names = only.split(',').map(name => parseStep(name.trim(), '--only'));
+    return LAUNCH_STEPS.filter(step => names.includes(step));
+  }
+  if (from) {
+    return LAUNCH_STEPS.slice(LAUNCH_STEPS.indexOf(parseStep(from, '--from')));
+  }
+  const resumeAt = LAUNCH_STEPS.findIndex(step => !['done', 'skipped'].includes(state.steps[step].status));
+  return resumeAt === -1 ? [] : LAUNCH_STEPS.slice(resumeAt);
+}
+
+const defaultStatePath = (chainId: number) => path.join(process.cwd(), 'launches', `${chainId}.state.json`);
+
+function saveState(statePath: string, state: LaunchState) {
+  fs.mkdirSync(path.dirname(statePath), { recursive: true });
+  fs.writeFileSync(statePath, `${JSON.stringify(state, null, 2)}\n`);
+}
+
+const STATUS_ICONS: Record<StepStatus, string> = {
+  pending: '·',
+  done: `${colors.green}✅`,
+  skipped: `${colors.yellow}⏭️ `,
+  failed: `${colors.red}❌`
+};
+
+function printProgress(state: LaunchState) {
+  console.log(`\n${colors.cyan}Launch on ${state.network} (chain ID ${state.chainId})${colors.reset}`);
+  if (state.deployment) {
+    console.log(`Deployment: ${state.deployment}`);
+  }
+  LAUNCH_STEPS.forEach((step, i) => {
+    const { status, error } = state.steps[step];
+    console.log(`${STATUS_ICONS[status]} ${i + 1}. ${step}: ${STEPS[step].description}${colors.reset}${error ? ` (${error})` : ''}`);
+  });
+}
+
+/**
+ * Runs the steps in order, saving the state before and after each one. The first step that fails is saved
+ * as failed and its error rethrown.
+ */
+export async function runSteps(context: LaunchContext, steps: LaunchStepName[], statePath: string) {
+  const { state } = context;
+  for (const step of steps) {
+    const skipReason = STEPS[step].skip?.(context);
+    if (skipReason) {
+      console.log(`\n${colors.yellow}⏭️  Skipping ${step}: ${skipReason}${colors.reset}`);
+      state.steps[step] = { status: 'skipped', finishedAt: new Date().toISOString(), output: { reason: skipReason } };
+      saveState(statePath, state);
+      continue;
+    }
+
+    console.log(`\n${colors.cyan}▶ ${step}: ${STEPS[step].description}${colors.reset}`);
+    state.steps[step] = { status: 'pending', startedAt: new Date().toISOString() };
+    saveState(statePath, state);
+    try {
+      const output = await STEPS[step].run(context);
+      state.steps[step] = { ...state.steps[step], status: 'done', finishedAt: new Date().toISOString(), output };
+      saveState(statePath, state);
+    } catch (error: any) {
+      state.steps[step] = { ...state.steps[step], status: 'failed', finishedAt: new Date().toISOString(), error: error.message };
+      saveState(statePath, state);
+      printProgress(state);
+      console.error(`\n${colors.red}❌ Step ${step} failed: ${error.message}${colors.reset}`);
+      console.error(`Fix the problem and run pnpm launch again to resume from ${step}.`);
+      if (DEBUG) {
+        console.error(error);
+      }
+      throw error;
+    }
+  }
+}
+
+// Main function
+export const main = async () => {
+  setupOutput();
+  const argv = process.argv;
+
+  let state: LaunchState | undefined;
+  try {
+    const network = resolveNetwork();
+    const configHash = ethers.keccak256(fs.readFileSync(path.join(process.cwd(), 'deploy.config.json')));
+    const statePath = path.resolve(process.cwd(), getFlag(argv, '--state') || defaultStatePath(network.chainId));
+
+    if (fs.existsSync(statePath)) {
+      state = JSON.parse(fs.readFileSync(statePath, 'utf8')) as LaunchState;
+      if (state.chainId !== network.chainId) {
+        throw new CommandError('invalid', 'LAUNCH_STATE_MISMATCH', `${statePath} is a launch on chain ID ${state.chainId}, not ${network.chainId}`);
+      }
+      // Steps added since the launch started are pending
+      state.steps = { ...createLaunchState(state.network, state.chainId, state.configHash).steps, ...state.steps };
+      console.log(`Resuming from ${statePath}`);
+      if (state.configHash !== configHash) {
+        console.log(`${colors.yellow}⚠️ deploy.config.json changed since this launch started${colors.reset}`);
+      }
+    } else {
+      state = createLaunchState(network.name, network.chainId, configHash);
+    }
+
+    const allocationFile = getFlag(argv, '--allocations');
+    if (allocationFile) {
+      state.allocationFile = path.resolve(process.cwd(), allocationFile);
+    }
+    // Later steps act on the deployment this launch created, not whichever is active
+    if (state.deployment) {
+      process.env.DEPLOYMENT = state.deployment;
+    }
+
+    const steps = selectSteps(state, argv);
+    if (steps.length === 0) {
+      console.log(`${colors.green}✅ Every step has already run. Use --from or --only to run steps again.${colors.reset}`);
+    }
+
+    try {
+      await runSteps({ network, state, argv }, steps, statePath);
+    } catch (error) {
+      // Keep the failure class of the step, e.g. checkFailed for a verification that did not pass
+      fail('launch', error, { ...state });
+    }
+
+    printProgress(state);
+    console.log(`\n${colors.green}✅ Launch complete${colors.reset}`);
+    finish('launch', { statePath, ...state });
+  } catch (error: any) {
+    console.error(`${colors.red}Error: ${error.message}${colors.reset}`);
+    if (DEBUG) {
+      console.error(error);
+    }
+    fail('launch', error, { ...state });
+  }
+};
+
+if (require.main === module) {
+  main();
+}
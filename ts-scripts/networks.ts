@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getFlag } from './args';
+import { CommandError } from './output';
+
+/**
+ * A named deployment target from networks.config.json
+ */
+export interface NetworkProfile {
+  name: string;
+  chainId: number;
+  rpcUrlEnv: string;
+  // Only for explorers forge does not know; forge picks the Etherscan API for Etherscan-family chains itself
+  explorerApiUrl?: string;
+  explorerApiKeyEnv?: string;
+  // Verifiers for pnpm verify, as in `sourcify` or `blockscout=https://...` (default: etherscan)
+  verifiers?: string[];
+  // Symbol gas costs are reported in (default: ETH)
+  nativeCurrency?: string;
+  tally: boolean;
+}
+
+/**
+ * The network a command runs against, with its env-provided values resolved
+ */
+export interface ResolvedNetwork extends NetworkProfile {
+  rpcUrl: string;
+  explorerApiKey?: string;
+}
+
+type NetworkConfigFile = Record<string, Omit<NetworkProfile, 'name'>>;
+
+const NETWORKS_CONFIG_PATH = path.join(process.cwd(), 'networks.config.json');
+
+/**
+ * Reads every profile from networks.config.json
+ */
+export function loadNetworks(configPath = NETWORKS_CONFIG_PATH): NetworkProfile[] {
+  if (!fs.existsSync(configPath)) {
+    return [];
+  }
+
+  const config: NetworkConfigFile = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  return Object.entries(config).map(([name, profile]) => {
+    if (!Number.isInteger(profile.chainId) || profile.chainId <= 0) {
+      throw new Error(`Network "${name}" in networks.config.json has an invalid chainId`);
+    }
+    if (!profile.rpcUrlEnv) {
+      throw new Error(`Network "${name}" in networks.config.json is missing rpcUrlEnv`);
+    }
+    return { ...profile, name, tally: profile.tally ?? false };
+  });
+}
+
+/**
+ * Looks up a profile by name
+ */
+export function getNetwork(name: string, configPath = NETWORKS_CONFIG_PATH): NetworkProfile {
+  const networks = loadNetworks(configPath);
+  const profile = networks.find(network => network.name === name);
+  if (!profile) {
+    const available = networks.map(network => network.name).join(', ') || 'none';
+    throw new CommandError('invalid', 'NETWORK_UNKNOWN', `Unknown network "${name}". Available networks: ${available}`);
+  }
+  return profile;
+}
+
+/**
+ * Reads `--network <name>` or `--network=<name>` from the command line
+ */
+export function parseNetworkArg(argv: string[] = process.argv): string | undefined {
+  return getFlag(argv, '--network');
+}
+
+/**
+ * Exports a profile as the CHAIN_ID/RPC_URL/ETHERSCAN_API_KEY variables forge and the scripts read
+ */
+export function applyNetworkEnv(network: ResolvedNetwork): void {
+  process.env.NETWORK = network.name;
+  process.env.CHAIN_ID = String(network.chainId);
+  process.env.RPC_URL = network.rpcUrl;
+  if (network.explorerApiKey) {
+    process.env.ETHERSCAN_API_KEY = network.explorerApiKey;
+  } else if (network.explorerApiKeyEnv && network.explorerApiKeyEnv !== 'ETHERSCAN_API_KEY' && process.env.ETHERSCAN_API_KEY) {
+    // Never send the key of one explorer to another
+    console.warn(`Warning: ${network.explorerApiKeyEnv} is not set, ETHERSCAN_API_KEY is not used for network "${network.name}"`);
+    delete process.env.ETHERSCAN_API_KEY;
+  }
+  if (network.explorerApiUrl) {
+    process.env.EXPLORER_API_URL = network.explorerApiUrl;
+  }
+  if (network.verifiers && !process.env.VERIFIERS) {
+    process.env.VERIFIERS = network.verifiers.join(',');
+  }
+}
+
+/**
+ * Resolves the network for this run from --network, the NETWORK variable, or the legacy CHAIN_ID/RPC_URL pair
+ */
+export function resolveNetwork(argv: string[] = process.argv): ResolvedNetwork {
+  const name = parseNetworkArg(argv) || process.env.NETWORK;
+
+  if (!name) {
+    const chainId = Number(process.env.CHAIN_ID);
+    if (!process.env.CHAIN_ID || !Number.isInteger(chainId)) {
+      throw new CommandError('invalid', 'ENV_MISSING', 'CHAIN_ID environment variable is not set. Set it in .env or pass --network <name>.');
+    }
+    return {
+      name: `chain-${chainId}`,
+      chainId,
+      rpcUrlEnv: 'RPC_URL',
+      rpcUrl: process.env.RPC_URL || '',
+      explorerApiUrl: process.env.EXPLORER_API_URL,
+      explorerApiKeyEnv: 'ETHERSCAN_API_KEY',
+      explorerApiKey: process.env.ETHERSCAN_API_KEY,
+      tally: true
+    };
+  }
+
+  const profile = getNetwork(name);
+  const rpcUrl = process.env[profile.rpcUrlEnv];
+  if (!rpcUrl) {
+    throw new CommandError('invalid', 'ENV_MISSING', `${profile.rpcUrlEnv} environment variable is not set (required by network "${profile.name}")`);
+  }
+
+  const network: ResolvedNetwork = {
+    ...profile,
+    rpcUrl,
+    explorerApiKey: profile.explorerApiKeyEnv ? process.env[profile.explorerApiKeyEnv] : undefined
+  };
+  applyNetworkEnv(network);
+  return network;
+}
+
+/**
+ * Directory holding forge broadcast artifacts for a script on a chain
+ */
+export function broadcastDir(chainId: number | string, script = 'Deploy.s.sol'): string {
+  return path.join(process.cwd(), 'broadcast', script, String(chainId));
+}
@@ -0,0 +1,131 @@
+import { TallyApiError } from './tally-client';
+import { describeError } from './tx';
+
+/**
+ * Exit codes shared by the scripts, one per class of failure, so CI can branch on them without parsing output
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  // Unexpected error
+  error: 1,
+  // Missing or invalid environment variables, config files or arguments
+  invalid: 2,
+  // The deployment, contract or DAO looked for does not exist
+  notFound: 3,
+  // An RPC node, explorer or the Tally API could not be reached or gave no usable answer
+  unavailable: 4,
+  // A remote service rejected the request (authentication, validation, duplicates)
+  rejected: 5,
+  // The command ran but its checks did not pass (verification, ownership handover)
+  checkFailed: 6
+} as const;
+
+export type FailureClass = Exclude<keyof typeof EXIT_CODES, 'ok'>;
+
+export interface ResultError {
+  code: string;
+  message: string;
+}
+
+/**
+ * The object printed on stdout in --json mode. Command specific fields sit next to the common ones.
+ */
+export interface CommandResult {
+  command: string;
+  status: 'ok' | 'failed';
+  exitCode: number;
+  errors: ResultError[];
+  [key: string]: unknown;
+}
+
+/**
+ * An error with a known failure class and a stable code for the --json result
+ */
+export class CommandError extends Error {
+  readonly failure: FailureClass;
+  readonly code: string;
+
+  constructor(failure: FailureClass, code: string, message: string) {
+    super(message);
+    this.name = 'CommandError';
+    this.failure = failure;
+    this.code = code;
+  }
+}
+
+// Tally error kinds and the failure class each one maps to
+const TALLY_FAILURES: Record<TallyApiError['kind'], FailureClass> = {
+  'not-found': 'notFound',
+  'already-exists': 'rejected',
+  'auth-expired': 'rejected',
+  'validation': 'rejected',
+  'rate-limited': 'unavailable',
+  'unknown': 'unavailable'
+};
+
+// ethers error codes raised when the RPC node cannot be reached or does not answer
+const RPC_UNAVAILABLE = ['NETWORK_ERROR', 'SERVER_ERROR', 'TIMEOUT', 'ECONNREFUSED', 'ENOTFOUND'];
+
+/**
+ * Maps an error to its failure class and result error code
+ */
+export function classifyError(error: any): { failure: FailureClass; error: ResultError } {
+  const message = describeError(error);
+  if (error instanceof CommandError) {
+    return { failure: error.failure, error: { code: error.code, message } };
+  }
+  if (error instanceof TallyApiError) {
+    return { failure: TALLY_FAILURES[error.kind], error: { code: `TALLY_${error.kind.toUpperCase().replace('-', '_')}`, message } };
+  }
+  if (RPC_UNAVAILABLE.includes(error?.code)) {
+    return { failure: 'unavailable', error: { code: 'RPC_UNAVAILABLE', message } };
+  }
+  return { failure: 'error', error: { code: 'UNEXPECTED', message } };
+}
+
+/**
+ * Whether --json was passed to this script or to the CLI, which forwards it as JSON_OUTPUT=true
+ */
+export function isJsonOutput(argv = process.argv): boolean {
+  return argv.includes('--json') || process.env.JSON_OUTPUT === 'true';
+}
+
+/**
+ * Switches to --json mode when requested: console.log is sent to stderr so stdout only carries the result.
+ * Returns whether --json mode is on.
+ */
+export function setupOutput(argv = process.argv): boolean {
+  const json = isJsonOutput(argv);
+  if (json) {
+    console.log = console.error;
+    console.info = console.error;
+  }
+  return json;
+}
+
+/**
+ * Prints the result object in --json mode and exits with the code of the failure class, or 0 without one
+ */
+export function finish(
+  command: string,
+  data: Record<string, unknown> = {},
+  failure?: FailureClass,
+  errors: ResultError[] = []
+): never {
+  const exitCode = failure ? EXIT_CODES[failure] : EXIT_CODES.ok;
+  if (isJsonOutput()) {
+    const result: CommandResult = { command, status: failure ? 'failed' : 'ok', exitCode, errors, ...data };
+    // Token amounts are bigints, printed as decimal strings
+    const json = JSON.stringify(result, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2);
+    process.stdout.write(`${json}\n`);
+  }
+  process.exit(exitCode);
+}
+
+/**
+ * Classifies an error and finishes the command with it
+ */
+export function fail(command: string, error: unknown, data: Record<string, unknown> = {}): never {
+  const { failure, error: resultError } = classifyError(error);
+  return finish(command, data, failure, [resultError]);
+}
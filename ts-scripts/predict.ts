@@ -0,0 +1,201 @@
+#!/usr/bin/env ts-node
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { getFlag } from './args';
+import { ContractArtifact, loadArtifact } from './artifacts';
+import { resolveNetwork } from './networks';
+import { CommandError, fail, finish, setupOutput } from './output';
+import { getSigner } from './signer';
+import { DeployConfig, loadDeployConfig } from './validate-config';
+
+// Load environment variables
+dotenv.config({ path: process.env.ENV_FILE });
+
+// Check if debug mode is enabled
+const DEBUG = process.env.DEBUG === 'true';
+
+// Define ANSI color codes for console output
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+/**
+ * The deterministic deployment proxy forge sends `new Contract{salt: ...}` through
+ */
+export const CREATE2_FACTORY = '0x4e59b44847b379578588920cA78FbF26c0B4956C';
+
+export interface PredictedContract {
+  contractName: string;
+  address: string;
+  initCodeHash: string;
+  constructorArgs: unknown[];
+}
+
+export interface PredictedDeployment {
+  factory: string;
+  salt: string;
+  deployer: string;
+  token: PredictedContract;
+  governor: PredictedContract;
+}
+
+/**
+ * Appends the ABI-encoded constructor arguments to an artifact's creation bytecode
+ */
+export function buildInitCode(artifact: ContractArtifact, args: unknown[]): string {
+  const bytecode = artifact.bytecode.object;
+  if (bytecode.includes('__$')) {
+    throw new Error('Bytecode has unlinked libraries and cannot be deployed deterministically');
+  }
+  return ethers.concat([bytecode, new ethers.Interface(artifact.abi).encodeDeploy(args)]);
+}
+
+/**
+ * Computes the CREATE2 address of a contract deployed through `factory`
+ */
+export function predictContract(
+  contractName: string,
+  artifact: ContractArtifact,
+  args: unknown[],
+  salt: string,
+  factory = CREATE2_FACTORY
+): PredictedContract {
+  const initCodeHash = ethers.keccak256(buildInitCode(artifact, args));
+  return {
+    contractName,
+    address: ethers.getCreate2Address(factory, salt, initCodeHash),
+    initCodeHash,
+    constructorArgs: args
+  };
+}
+
+/**
+ * Computes the token and governor addresses Deploy.s.sol deploys to for a config with a salt, the same way
+ * the script does: the token is owned by the deployer and the governor is built on the predicted token
+ */
+export function predictDeployment(
+  config: DeployConfig,
+  deployer: string,
+  artifacts: { token: ContractArtifact; governor: ContractArtifact } = {
+    token: loadArtifact('UngovernableERC20'),
+    governor: loadArtifact('UngovernableGovernor')
+  },
+  factory = CREATE2_FACTORY
+): PredictedDeployment {
+  if (!config.salt) {
+    throw new CommandError(
+      'invalid',
+      'SALT_MISSING',
+      'deploy.config.json has no "salt", so addresses depend on the deployer nonce and cannot be predicted'
+    );
+  }
+  const { governor, token } = config;
+
+  const predictedToken = predictContract(
+    'UngovernableERC20',
+    artifacts.token,
+    [token._name, token._symbol, ethers.getAddress(deployer)],
+    config.salt,
+    factory
+  );
+  const predictedGovernor = predictContract(
+    'UngovernableGovernor',
+    artifacts.governor,
+    [
+      governor._name,
+      predictedToken.address,
+      governor._initialQuorumPercentage,
+      governor._initialVoteExtension,
+      governor._initialVotingDelay,
+      governor._initialVotingPeriod,
+      governor._initialProposalThreshold
+    ],
+    config.salt,
+    factory
+  );
+
+  return { factory, salt: config.salt, deployer: ethers.getAddress(deployer), token: predictedToken, governor: predictedGovernor };
+}
+
+/**
+ * Reports which predicted contracts already have code on the target chain
+ */
+export async function findDeployedCode(
+  provider: ethers.Provider,
+  prediction: PredictedDeployment
+): Promise<{ token: boolean; governor: boolean; factory: boolean }> {
+  const [token, governor, factory] = await Promise.all(
+    [prediction.token.address, prediction.governor.address, prediction.factory].map(address => provider.getCode(address))
+  );
+  return { token: token !== '0x', governor: governor !== '0x', factory: factory !== '0x' };
+}
+
+// Main function
+export const main = async () => {
+  setupOutput();
+  const argv = process.argv;
+
+  try {
+    const config = loadDeployConfig();
+    const salt = getFlag(argv, '--salt');
+    if (salt !== undefined) {
+      if (!ethers.isHexString(salt, 32)) {
+        throw new CommandError('invalid', 'ARGUMENT_INVALID', `--salt ${salt} is not a 32-byte hex string`);
+      }
+      config.salt = salt;
+    }
+    const deployer = getFlag(argv, '--deployer') ?? (await (await getSigner()).getAddress());
+    if (!ethers.isAddress(deployer)) {
+      throw new CommandError('invalid', 'ARGUMENT_INVALID', `--deployer ${deployer} is not an address`);
+    }
+
+    const prediction = predictDeployment(config, deployer);
+    if (DEBUG) {
+      console.log('Token init code hash:', prediction.token.initCodeHash);
+      console.log('Governor init code hash:', prediction.governor.initCodeHash);
+    }
+
+    console.log(`${colors.cyan}Deterministic addresses for salt ${prediction.salt}${colors.reset}`);
+    console.log(`Deployer: ${prediction.deployer}`);
+    console.log(`Factory:  ${prediction.factory}`);
+    console.log(`Token:    ${prediction.token.address}`);
+    console.log(`Governor: ${prediction.governor.address}`);
+
+    // Without --check the prediction is offline only
+    if (!argv.includes('--check')) {
+      finish('predict', { ...prediction });
+    }
+
+    const network = resolveNetwork();
+    const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+    const deployed = await findDeployedCode(provider, prediction);
+
+    console.log(`\nOn ${network.name} (chain ID ${network.chainId}):`);
+    for (const key of ['token', 'governor'] as const) {
+      console.log(deployed[key]
+        ? `${colors.green}✅ ${key} already deployed, deploy:prod will reuse it${colors.reset}`
+        : `${colors.yellow}${key} not deployed yet${colors.reset}`);
+    }
+    if (!deployed.factory) {
+      console.log(`${colors.red}❌ The CREATE2 factory ${prediction.factory} has no code on this chain${colors.reset}`);
+      finish('predict', { ...prediction, network: network.name, chainId: network.chainId, deployed }, 'notFound', [
+        { code: 'FACTORY_NOT_DEPLOYED', message: `CREATE2 factory ${prediction.factory} is not deployed on chain ${network.chainId}` }
+      ]);
+    }
+    finish('predict', { ...prediction, network: network.name, chainId: network.chainId, deployed });
+  } catch (error: any) {
+    console.error(`${colors.red}Error: ${error.message}${colors.reset}`);
+    if (DEBUG) {
+      console.error(error);
+    }
+    fail('predict', error);
+  }
+};
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,298 @@
+#!/usr/bin/env ts-node
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { getFlag } from './args';
+import { loadArtifact } from './artifacts';
+import { namedConstructorArgs } from './constructor-args';
+import { DeploymentRecord, resolveDeployment } from './deployments';
+import { resolveNetwork } from './networks';
+import { ask } from './prompt';
+import { getSigner } from './signer';
+import { resolveStartBlock } from './start-block';
+import { describeError } from './tx';
+import { formatTokenAmount } from './validate-config';
+
+// Load environment variables
+dotenv.config({ path: process.env.ENV_FILE });
+
+// Check if debug mode is enabled
+const DEBUG = process.env.DEBUG === 'true';
+
+// Define ANSI color codes for console output
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+};
+
+type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface Check {
+  label: string;
+  status: CheckStatus;
+  detail?: string;
+}
+
+const check = (label: string, ok: boolean, detail?: string, failStatus: CheckStatus = 'fail'): Check => ({
+  label,
+  status: ok ? 'pass' : failStatus,
+  detail: ok ? undefined : detail
+});
+
+/**
+ * The token and governor settings read from the live contracts
+ */
+export interface LiveSettings {
+  tokenName: string;
+  tokenSymbol: string;
+  governorName: string;
+  governorToken: string;
+  proposalThreshold: bigint;
+  quorumNumerator: bigint;
+  votingDelay: bigint;
+  votingPeriod: bigint;
+  lateQuorumVoteExtension: bigint;
+}
+
+/**
+ * Compares the constructor arguments in the deployment record, keyed by parameter name, with the live contracts
+ */
+export function checkDeploymentRecord(
+  deployment: DeploymentRecord,
+  recordedToken: Record<string, unknown>,
+  recordedGovernor: Record<string, unknown>,
+  live: LiveSettings
+): Check[] {
+  const tokenAddress = deployment.contracts.token.address;
+  const field = <T>(label: string, recorded: T, actual: T) =>
+    check(`${label} matches the deployment record`, recorded === actual, `record has ${recorded}, contract returns ${actual}`);
+
+  return [
+    check('Governor was deployed with the recorded token', recordedGovernor._token === tokenAddress, `record has ${recordedGovernor._token}, token is ${tokenAddress}`),
+    field('token.name()', recordedToken._name, live.tokenName),
+    field('token.symbol()', recordedToken._symbol, live.tokenSymbol),
+    field('governor.name()', recordedGovernor._name, live.governorName),
+    field('governor.proposalThreshold()', recordedGovernor._initialProposalThreshold, live.proposalThreshold),
+    field('governor.quorumNumerator()', recordedGovernor._initialQuorumPercentage, live.quorumNumerator),
+    field('governor.votingDelay()', recordedGovernor._initialVotingDelay, live.votingDelay),
+    field('governor.votingPeriod()', recordedGovernor._initialVotingPeriod, live.votingPeriod),
+    field('governor.lateQuorumVoteExtension()', recordedGovernor._initialVoteExtension, live.lateQuorumVoteExtension)
+  ];
+}
+
+/**
+ * Rebuilds the current whitelist from Whitelist events, confirmed against the whitelist mapping
+ */
+async function findWhitelisted(token: ethers.Contract, fromBlock: number): Promise<string[]> {
+  const events = await token.queryFilter(token.filters.Whitelist(), fromBlock);
+  const candidates = new Set(events.map(event => (event as ethers.EventLog).args[0] as string));
+  const whitelisted: string[] = [];
+  for (const address of candidates) {
+    if (await token.whitelist(address)) {
+      whitelisted.push(address);
+    }
+  }
+  return whitelisted;
+}
+
+/**
+ * Finds every address that ever received tokens and returns the non-zero balances
+ */
+async function findHolders(token: ethers.Contract, fromBlock: number): Promise<Map<string, bigint>> {
+  const events = await token.queryFilter(token.filters.Transfer(), fromBlock);
+  const candidates = new Set(events.map(event => (event as ethers.EventLog).args[1] as string));
+  candidates.delete(ethers.ZeroAddress);
+
+  const holders = new Map<string, bigint>();
+  for (const address of candidates) {
+    const balance: bigint = await token.balanceOf(address);
+    if (balance > 0n) {
+      holders.set(address, balance);
+    }
+  }
+  return holders;
+}
+
+/**
+ * Runs every pre-renounce check against the chain
+ */
+async function runChecks(
+  provider: ethers.JsonRpcProvider,
+  deployment: DeploymentRecord,
+  sender: string
+): Promise<{ checks: Check[]; symbol: string }> {
+  const tokenAddress = deployment.contracts.token.address;
+  const governorAddress = deployment.contracts.governor.address;
+  const tokenAbi = loadArtifact(deployment.contracts.token.contractName).abi;
+  const governorAbi = loadArtifact('UngovernableGovernor').abi;
+  const token = new ethers.Contract(tokenAddress, tokenAbi, provider);
+  const governor = new ethers.Contract(governorAddress, governorAbi, provider);
+
+  const [tokenCode, governorCode] = await Promise.all([provider.getCode(tokenAddress), provider.getCode(governorAddress)]);
+  if (tokenCode === '0x' || governorCode === '0x') {
+    return {
+      symbol: '',
+      checks: [
+        check(`Token has code at ${tokenAddress}`, tokenCode !== '0x', 'no contract at this address'),
+        check(`Governor has code at ${governorAddress}`, governorCode !== '0x', 'no contract at this address')
+      ]
+    };
+  }
+
+  const [
+    name,
+    symbol,
+    owner,
+    governorName,
+    governorToken,
+    totalSupply,
+    isTransferPaused,
+    threshold,
+    quorumNumerator,
+    votingDelay,
+    votingPeriod,
+    lateQuorumVoteExtension
+  ] = await Promise.all([
+    token.name(),
+    token.symbol(),
+    token.owner(),
+    governor.name(),
+    governor.token(),
+    token.totalSupply(),
+    token.isTransferPaused(),
+    governor.proposalThreshold(),
+    governor['quorumNumerator()'](),
+    governor.votingDelay(),
+    governor.votingPeriod(),
+    governor.lateQuorumVoteExtension()
+  ]);
+
+  const checks = checkDeploymentRecord(
+    deployment,
+    namedConstructorArgs(tokenAbi, deployment.contracts.token.constructorArgs),
+    namedConstructorArgs(governorAbi, deployment.contracts.governor.constructorArgs),
+    {
+      tokenName: name,
+      tokenSymbol: symbol,
+      governorName,
+      governorToken,
+      proposalThreshold: threshold,
+      quorumNumerator,
+      votingDelay,
+      votingPeriod,
+      lateQuorumVoteExtension
+    }
+  );
+  checks.push(check('Sender owns the token', owner === sender, `owner is ${owner}, sender is ${sender}`));
+  checks.push(check('governor.token() is the token', governorToken === tokenAddress, `governor.token() returns ${governorToken}`));
+  checks.push(check('Total supply is non-zero', totalSupply > 0n, 'no tokens were minted, and nobody can mint after renouncing'));
+
+  const { blockNumber: fromBlock } = await resolveStartBlock(provider, deployment.contracts.token, deployment.broadcastFile);
+
+  if (isTransferPaused) {
+    try {
+      const whitelisted = await findWhitelisted(token, fromBlock);
+      checks.push(
+        check(
+          'Transfers are paused but some addresses are whitelisted',
+          whitelisted.length > 0,
+          'transfers are paused and nobody is whitelisted, so no tokens can move until governance calls enableTransfer()',
+          'warn'
+        )
+      );
+    } catch (error) {
+      checks.push({ label: 'Whitelist could be read from events', status: 'warn', detail: describeError(error) });
+    }
+  }
+
+  checks.push(
+    check(
+      'Proposal threshold is below total supply',
+      threshold <= totalSupply,
+      `threshold ${formatTokenAmount(threshold)} exceeds supply ${formatTokenAmount(totalSupply)}, no proposal can ever be created`
+    )
+  );
+  if (threshold > 0n && threshold <= totalSupply) {
+    try {
+      const holders = await findHolders(token, fromBlock);
+      const largest = [...holders.values()].reduce((max, balance) => (balance > max ? balance : max), 0n);
+      checks.push(
+        check(
+          'A single holder can reach the proposal threshold',
+          largest >= threshold,
+          `largest holder has ${formatTokenAmount(largest)} of the ${formatTokenAmount(threshold)} needed, so holders must delegate to a common address to propose`,
+          'warn'
+        )
+      );
+    } catch (error) {
+      checks.push({ label: 'Holders could be read from events', status: 'warn', detail: describeError(error) });
+    }
+  }
+
+  return { checks, symbol };
+}
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+  pass: `${colors.green}✅`,
+  warn: `${colors.yellow}⚠️ `,
+  fail: `${colors.red}❌`
+};
+
+/**
+ * Runs the pre-renounce checks for the selected deployment and asks for the token symbol as confirmation.
+ * Throws when a check fails or the symbol does not match.
+ */
+export async function preflightRenounce(argv: string[] = process.argv): Promise<void> {
+  const network = resolveNetwork(argv);
+  const deployment = resolveDeployment(network.chainId, argv);
+  const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+  const sender = await (await getSigner(provider)).getAddress();
+
+  console.log(`${colors.cyan}Pre-renounce checks for deployment ${deployment.name} on ${network.name}${colors.reset}\n`);
+  if (DEBUG) {
+    console.log(`Token: ${deployment.contracts.token.address}`);
+    console.log(`Governor: ${deployment.contracts.governor.address}\n`);
+  }
+
+  const { checks, symbol } = await runChecks(provider, deployment, sender);
+  for (const { label, status, detail } of checks) {
+    console.log(`${STATUS_ICONS[status]} ${label}${colors.reset}${detail ? `\n     ${detail}` : ''}`);
+  }
+
+  const failed = checks.filter(c => c.status === 'fail').length;
+  const warnings = checks.filter(c => c.status === 'warn').length;
+  if (failed > 0) {
+    throw new Error(`${failed} pre-renounce check(s) failed, not renouncing`);
+  }
+
+  console.log(`\n${colors.yellow}Renouncing hands the token to the governor. Nobody will be able to mint again and this cannot be undone.${colors.reset}`);
+  if (warnings > 0) {
+    console.log(`${colors.yellow}${warnings} warning(s) above.${colors.reset}`);
+  }
+
+  const typed = getFlag(argv, '--confirm-symbol') ?? (await ask(`Type the token symbol (${symbol}) to continue: `));
+  if (typed !== symbol) {
+    throw new Error('Symbol does not match, not renouncing');
+  }
+  console.log(`${colors.green}✅ Pre-renounce checks passed${colors.reset}`);
+}
+
+// Main function
+const main = async () => {
+  try {
+    await preflightRenounce();
+  } catch (error: any) {
+    console.error(`${colors.red}Error: ${describeError(error)}${colors.reset}`);
+    if (DEBUG) {
+      console.error(error);
+    }
+    process.exit(1);
+  }
+};
+
+if (require.main === module) {
+  main();
+}
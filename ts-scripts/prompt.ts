@@ -0,0 +1,69 @@
+import * as readline from 'readline';
+import { Writable } from 'stream';
+
+// Prompts go to stderr so they never mix with the result object that --json mode prints on stdout
+
+/**
+ * Forwards to stderr until muted, so what is typed after a question is not echoed
+ */
+class MutableOutput extends Writable {
+  muted = false;
+
+  _write(chunk: Buffer, encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+    if (!this.muted) {
+      process.stderr.write(chunk, encoding);
+    }
+    callback();
+  }
+}
+
+// Set by the CLI's --yes flag
+let assumeYes = false;
+
+/**
+ * Makes confirm() accept without asking, as --yes does
+ */
+export function setAssumeYes(yes: boolean) {
+  assumeYes = yes;
+}
+
+/**
+ * Asks a question on the terminal and resolves with the trimmed answer
+ */
+export function ask(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  return new Promise(resolve => {
+    rl.question(question, answer => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+/**
+ * Asks for a secret without echoing what is typed
+ */
+export function askSecret(question: string): Promise<string> {
+  const output = new MutableOutput();
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+  return new Promise(resolve => {
+    rl.question(question, answer => {
+      rl.close();
+      process.stderr.write('\n');
+      resolve(answer.trim());
+    });
+    // The question is written, mute the echo of the answer
+    output.muted = true;
+  });
+}
+
+/**
+ * Asks a yes/no question, skipped (and accepted) with --yes
+ */
+export async function confirm(question: string, argv: string[] = process.argv): Promise<boolean> {
+  if (assumeYes || argv.includes('--yes')) {
+    return true;
+  }
+  const answer = await ask(`${question} [y/N] `);
+  return /^y(es)?$/i.test(answer);
+}
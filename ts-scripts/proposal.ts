@@ -0,0 +1,520 @@
+#!/usr/bin/env ts-node
+import * as fs from 'fs';
+import * as path from 'path';
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import YAML from 'yaml';
+import { getFlag, getPositionals } from './args';
+import { loadArtifact } from './artifacts';
+import { resolveDeployment } from './deployments';
+import { resolveNetwork } from './networks';
+import { CommandError, fail, finish, setupOutput } from './output';
+import { confirm } from './prompt';
+import { getSigner } from './signer';
+import { describeError } from './tx';
+import { formatTokenAmount } from './validate-config';
+
+// Load environment variables
+dotenv.config({ path: process.env.ENV_FILE });
+
+// Check if debug mode is enabled
+const DEBUG = process.env.DEBUG === 'true';
+
+// Define ANSI color codes for console output
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+};
+
+// Order of OpenZeppelin's IGovernor.ProposalState enum
+const PROPOSAL_STATES = ['Pending', 'Active', 'Canceled', 'Defeated', 'Succeeded', 'Queued', 'Expired', 'Executed'];
+
+// GovernorCountingSimple.VoteType
+const VOTE_SUPPORT = new Map([
+  ['against', 0],
+  ['for', 1],
+  ['abstain', 2]
+]);
+
+// Flags that take a value, so their value is not mistaken for a positional argument
+const VALUE_FLAGS = ['--network', '--deployment', '--env-file', '--reason', '--fork-url', '--confirm-symbol'];
+
+/**
+ * One call in a proposal file, either raw calldata or a function signature with arguments
+ */
+interface ProposalAction {
+  target: string;
+  value?: string | number;
+  calldata?: string;
+  signature?: string;
+  args?: unknown[];
+}
+
+/**
+ * The JSON/YAML proposal file format
+ */
+interface ProposalFile {
+  description?: string;
+  descriptionFile?: string;
+  actions: ProposalAction[];
+}
+
+/**
+ * A proposal with everything the governor needs to propose, queue and execute it
+ */
+export interface Proposal {
+  targets: string[];
+  values: bigint[];
+  calldatas: string[];
+  description: string;
+  descriptionHash: string;
+  proposalId: bigint;
+}
+
+/**
+ * Encodes one proposal action into target/value/calldata
+ */
+export function encodeAction(action: ProposalAction, index: number): { target: string; value: bigint; calldata: string } {
+  if (!action.target || !ethers.isAddress(action.target)) {
+    throw new Error(`actions[${index}].target must be an address, got ${JSON.stringify(action.target)}`);
+  }
+  const target = ethers.getAddress(action.target);
+
+  const rawValue = action.value ?? 0;
+  if (!/^\d+$/.test(String(rawValue))) {
+    throw new Error(`actions[${index}].value must be a whole number of wei, got ${JSON.stringify(rawValue)}`);
+  }
+  const value = BigInt(rawValue);
+
+  if (action.calldata !== undefined && action.signature !== undefined) {
+    throw new Error(`actions[${index}] must set either calldata or signature, not both`);
+  }
+  if (action.calldata !== undefined) {
+    if (!ethers.isHexString(action.calldata)) {
+      throw new Error(`actions[${index}].calldata must be a 0x-prefixed hex string`);
+    }
+    return { target, value, calldata: action.calldata };
+  }
+  if (action.signature !== undefined) {
+    const fragment = ethers.FunctionFragment.from(action.signature.replace(/^function\s+/, ''));
+    const calldata = new ethers.Interface([fragment]).encodeFunctionData(fragment, action.args || []);
+    return { target, value, calldata };
+  }
+  // A plain value transfer
+  return { target, value, calldata: '0x' };
+}
+
+/**
+ * Computes the proposal id the same way as Governor.hashProposal
+ */
+export function hashProposal(targets: string[], values: bigint[], calldatas: string[], descriptionHash: string): bigint {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+    ['address[]', 'uint256[]', 'bytes[]', 'bytes32'],
+    [targets, values, calldatas, descriptionHash]
+  );
+  return BigInt(ethers.keccak256(encoded));
+}
+
+/**
+ * Reads a JSON or YAML proposal file and builds the proposal from it
+ */
+export function loadProposal(file: string): Proposal {
+  const filePath = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Proposal file ${filePath} not found`);
+  }
+  const text = fs.readFileSync(filePath, 'utf8');
+  const parsed: ProposalFile = /\.ya?ml$/i.test(filePath) ? YAML.parse(text) : JSON.parse(text);
+
+  if (!parsed || !Array.isArray(parsed.actions) || parsed.actions.length === 0) {
+    throw new Error('Proposal file must contain a non-empty "actions" list');
+  }
+
+  let description = parsed.description;
+  if (parsed.descriptionFile) {
+    description = fs.readFileSync(path.resolve(path.dirname(filePath), parsed.descriptionFile), 'utf8');
+  }
+  if (!description || description.trim() === '') {
+    throw new Error('Proposal file must set "description" or "descriptionFile" (markdown)');
+  }
+
+  const actions = parsed.actions.map(encodeAction);
+  const targets = actions.map(action => action.target);
+  const values = actions.map(action => action.value);
+  const calldatas = actions.map(action => action.calldata);
+  const descriptionHash = ethers.id(description);
+
+  return {
+    targets,
+    values,
+    calldatas,
+    description,
+    descriptionHash,
+    proposalId: hashProposal(targets, values, calldatas, descriptionHash)
+  };
+}
+
+/**
+ * Connects to the network and the governor of the selected deployment
+ */
+function connectGovernor() {
+  const network = resolveNetwork();
+  const deployment = resolveDeployment(network.chainId);
+  const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+  const { abi } = loadArtifact('UngovernableGovernor');
+  const governor = new ethers.Contract(deployment.contracts.governor.address, abi, provider);
+
+  if (DEBUG) {
+    console.log(`Network: ${network.name} (chain ID ${network.chainId})`);
+    console.log(`Deployment: ${deployment.name}`);
+    console.log(`Governor: ${deployment.contracts.governor.address}`);
+  }
+
+  return { network, provider, governor, governorAddress: deployment.contracts.governor.address };
+}
+
+/**
+ * Prints the calls, description hash and proposal id of a proposal
+ */
+function printProposal(proposal: Proposal) {
+  console.log(`${colors.cyan}Proposal ${proposal.proposalId}${colors.reset}`);
+  console.log(`Description hash: ${proposal.descriptionHash}`);
+  proposal.targets.forEach((target, i) => {
+    console.log(`  [${i}] ${target} value=${proposal.values[i]} calldata=${proposal.calldatas[i]}`);
+  });
+}
+
+/**
+ * Simulates the proposal on the current chain state, or on a fork when --fork-url is given.
+ * A failing propose() aborts; failing actions are reported since state may change before execution.
+ */
+async function simulateProposal(
+  simulationProvider: ethers.Provider,
+  governor: ethers.Contract,
+  governorAddress: string,
+  proposer: string,
+  proposal: Proposal
+): Promise<void> {
+  const simulated = governor.connect(simulationProvider) as ethers.Contract;
+  try {
+    await simulated.propose.staticCall(proposal.targets, proposal.values, proposal.calldatas, proposal.description, {
+      from: proposer
+    });
+    console.log(`${colors.green}✓ propose() simulation succeeded${colors.reset}`);
+  } catch (error) {
+    throw new Error(`propose() would revert: ${describeError(error)}`);
+  }
+
+  for (let i = 0; i < proposal.targets.length; i++) {
+    try {
+      await simulationProvider.call({
+        from: governorAddress,
+        to: proposal.targets[i],
+        value: proposal.values[i],
+        data: proposal.calldatas[i]
+      });
+      console.log(`${colors.green}✓ action [${i}] succeeds when called by the governor${colors.reset}`);
+    } catch (error) {
+      console.warn(`${colors.yellow}Warning: action [${i}] reverts when called by the governor today: ${describeError(error)}${colors.reset}`);
+    }
+  }
+}
+
+/**
+ * proposal:create <file>
+ */
+async function createProposal(argv: string[], file: string) {
+  const proposal = loadProposal(file);
+  const { provider, governor, governorAddress } = connectGovernor();
+  const signer = await getSigner(provider);
+  const proposer = await signer.getAddress();
+
+  printProposal(proposal);
+
+  const onChainId: bigint = await governor.hashProposal(
+    proposal.targets,
+    proposal.values,
+    proposal.calldatas,
+    proposal.descriptionHash
+  );
+  if (onChainId !== proposal.proposalId) {
+    throw new Error(`Governor computed proposal id ${onChainId}, expected ${proposal.proposalId}`);
+  }
+
+  const forkUrl = getFlag(argv, '--fork-url');
+  const simulationProvider = forkUrl ? new ethers.JsonRpcProvider(forkUrl) : provider;
+  console.log(`Simulating against ${forkUrl ? `fork ${forkUrl}` : 'the latest block'}...`);
+  await simulateProposal(simulationProvider, governor, governorAddress, proposer, proposal);
+
+  if (argv.includes('--dry-run')) {
+    console.log('Dry run, not submitting.');
+    return;
+  }
+  if (!(await confirm(`Submit proposal from ${proposer}?`, argv))) {
+    console.log('Aborted.');
+    return;
+  }
+
+  const tx = await (governor.connect(signer) as ethers.Contract).propose(
+    proposal.targets,
+    proposal.values,
+    proposal.calldatas,
+    proposal.description
+  );
+  console.log(`Submitted ${tx.hash}, waiting for confirmation...`);
+  const receipt = await tx.wait();
+
+  const created = receipt.logs
+    .map((log: ethers.Log) => governor.interface.parseLog(log))
+    .find((parsed: ethers.LogDescription | null) => parsed?.name === 'ProposalCreated');
+  if (created && created.args.proposalId !== proposal.proposalId) {
+    throw new Error(`ProposalCreated reported id ${created.args.proposalId}, expected ${proposal.proposalId}`);
+  }
+
+  console.log(`${colors.green}✅ Proposal ${proposal.proposalId} created in block ${receipt.blockNumber}${colors.reset}`);
+}
+
+/**
+ * Maps for/against/abstain to GovernorCountingSimple's support value
+ */
+export function parseVoteSupport(name: string | undefined): number {
+  const support = VOTE_SUPPORT.get((name || '').toLowerCase());
+  if (support === undefined) {
+    throw new CommandError('invalid', 'ARGUMENT_INVALID', 'Vote must be one of: for, against, abstain');
+  }
+  return support;
+}
+
+/**
+ * proposal:vote <proposalId> <for|against|abstain> [--reason "..."]
+ */
+async function voteOnProposal(argv: string[], proposalId: string, supportName: string) {
+  const support = parseVoteSupport(supportName);
+
+  const { provider, governor } = connectGovernor();
+  const signer = await getSigner(provider);
+  const voter = await signer.getAddress();
+
+  const state = Number(await governor.state(proposalId));
+  if (PROPOSAL_STATES[state] !== 'Active') {
+    throw new Error(`Proposal is ${PROPOSAL_STATES[state]}, votes can only be cast while it is Active`);
+  }
+  if (await governor.hasVoted(proposalId, voter)) {
+    throw new Error(`${voter} has already voted on this proposal`);
+  }
+
+  const snapshot = await governor.proposalSnapshot(proposalId);
+  const weight: bigint = await governor.getVotes(voter, snapshot);
+  console.log(`Voting ${supportName.toUpperCase()} with ${formatTokenAmount(weight)} votes from ${voter}`);
+  if (weight === 0n) {
+    console.warn(`${colors.yellow}Warning: ${voter} had no delegated votes at the proposal snapshot${colors.reset}`);
+  }
+
+  if (!(await confirm('Cast vote?', argv))) {
+    console.log('Aborted.');
+    return;
+  }
+
+  const reason = getFlag(argv, '--reason');
+  const connected = governor.connect(signer) as ethers.Contract;
+  const tx = reason
+    ? await connected.castVoteWithReason(proposalId, support, reason)
+    : await connected.castVote(proposalId, support);
+  console.log(`Submitted ${tx.hash}, waiting for confirmation...`);
+  const receipt = await tx.wait();
+  console.log(`${colors.green}✅ Vote cast in block ${receipt.blockNumber}${colors.reset}`);
+}
+
+/**
+ * proposal:status <proposalId>
+ */
+async function showStatus(proposalId: string) {
+  const { governor } = connectGovernor();
+
+  const state = PROPOSAL_STATES[Number(await governor.state(proposalId))];
+  const [snapshot, deadline, proposer, votes, needsQueuing] = await Promise.all([
+    governor.proposalSnapshot(proposalId),
+    governor.proposalDeadline(proposalId),
+    governor.proposalProposer(proposalId),
+    governor.proposalVotes(proposalId),
+    governor.proposalNeedsQueuing(proposalId)
+  ]);
+  const [againstVotes, forVotes, abstainVotes] = votes as bigint[];
+
+  // The governor clock is in seconds (mode=timestamp)
+  const toDate = (timepoint: bigint) => new Date(Number(timepoint) * 1000).toISOString();
+
+  console.log(`${colors.cyan}Proposal ${proposalId}${colors.reset}`);
+  console.log(`State: ${state}`);
+  console.log(`Proposer: ${proposer}`);
+  console.log(`Voting starts: ${toDate(snapshot)}`);
+  console.log(`Voting ends: ${toDate(deadline)}`);
+  console.log(`For: ${formatTokenAmount(forVotes)}`);
+  console.log(`Against: ${formatTokenAmount(againstVotes)}`);
+  console.log(`Abstain: ${formatTokenAmount(abstainVotes)}`);
+
+  try {
+    const quorum: bigint = await governor.quorum(snapshot);
+    const counted = forVotes + abstainVotes;
+    console.log(`Quorum: ${formatTokenAmount(counted)} / ${formatTokenAmount(quorum)} ${counted >= quorum ? '(reached)' : '(not reached)'}`);
+  } catch (error) {
+    // quorum() reverts for a snapshot in the future
+    console.log('Quorum: available once voting starts');
+  }
+
+  console.log(`Needs queuing: ${needsQueuing ? 'yes' : 'no'}`);
+}
+
+/**
+ * proposal:queue <file>
+ */
+async function queueProposal(argv: string[], file: string) {
+  const proposal = loadProposal(file);
+  const { provider, governor } = connectGovernor();
+
+  if (!(await governor.proposalNeedsQueuing(proposal.proposalId))) {
+    console.log('This governor executes proposals directly, no queuing needed. Use proposal:execute.');
+    return;
+  }
+
+  const state = PROPOSAL_STATES[Number(await governor.state(proposal.proposalId))];
+  if (state !== 'Succeeded') {
+    throw new Error(`Proposal is ${state}, only Succeeded proposals can be queued`);
+  }
+  if (!(await confirm(`Queue proposal ${proposal.proposalId}?`, argv))) {
+    console.log('Aborted.');
+    return;
+  }
+
+  const signer = await getSigner(provider);
+  const tx = await (governor.connect(signer) as ethers.Contract).queue(
+    proposal.targets,
+    proposal.values,
+    proposal.calldatas,
+    proposal.descriptionHash
+  );
+  console.log(`Submitted ${tx.hash}, waiting for confirmation...`);
+  const receipt = await tx.wait();
+  console.log(`${colors.green}✅ Proposal queued in block ${receipt.blockNumber}${colors.reset}`);
+}
+
+/**
+ * proposal:execute <file>
+ */
+async function executeProposal(argv: string[], file: string) {
+  const proposal = loadProposal(file);
+  const { provider, governor, governorAddress } = connectGovernor();
+  const signer = await getSigner(provider);
+
+  const state = PROPOSAL_STATES[Number(await governor.state(proposal.proposalId))];
+  if (state !== 'Succeeded' && state !== 'Queued') {
+    throw new Error(`Proposal is ${state}, only Succeeded or Queued proposals can be executed`);
+  }
+
+  // The governor pays the action values from its own balance, --send-value makes the executor pay them instead
+  const totalValue = proposal.values.reduce((sum, value) => sum + value, 0n);
+  const value = argv.includes('--send-value') ? totalValue : 0n;
+  if (value === 0n && totalValue > 0n) {
+    const balance = await provider.getBalance(governorAddress);
+    if (balance < totalValue) {
+      throw new Error(
+        `The actions send ${ethers.formatEther(totalValue)} ETH but the governor holds ${ethers.formatEther(balance)} ETH. ` +
+          'Fund the governor, or pass --send-value to pay the values with the execute transaction.'
+      );
+    }
+  }
+
+  const connected = governor.connect(signer) as ethers.Contract;
+  try {
+    await connected.execute.staticCall(proposal.targets, proposal.values, proposal.calldatas, proposal.descriptionHash, { value });
+  } catch (error) {
+    throw new Error(`execute() would revert: ${describeError(error)}`);
+  }
+
+  const paying = value > 0n ? `, sending ${ethers.formatEther(value)} ETH` : '';
+  if (!(await confirm(`Execute proposal ${proposal.proposalId}${paying}?`, argv))) {
+    console.log('Aborted.');
+    return;
+  }
+
+  const tx = await connected.execute(proposal.targets, proposal.values, proposal.calldatas, proposal.descriptionHash, { value });
+  console.log(`Submitted ${tx.hash}, waiting for confirmation...`);
+  const receipt = await tx.wait();
+  console.log(`${colors.green}✅ Proposal executed in block ${receipt.blockNumber}${colors.reset}`);
+}
+
+const showHelp = () => {
+  console.log(`
+${colors.cyan}Governance Proposal CLI${colors.reset}
+${colors.yellow}Usage:${colors.reset}
+  pnpm proposal:create <file.json|file.yaml> [--fork-url <url>] [--dry-run] [--yes]
+  pnpm proposal:vote <proposalId> <for|against|abstain> [--reason "..."] [--yes]
+  pnpm proposal:status <proposalId>
+  pnpm proposal:queue <file> [--yes]
+  pnpm proposal:execute <file> [--send-value] [--yes]   # --send-value pays the action values instead of the governor
+
+All commands accept --network <name> and --deployment <name>.
+
+${colors.yellow}Proposal file:${colors.reset}
+  descriptionFile: ./my-proposal.md      # or an inline "description"
+  actions:
+    - target: "0x..."
+      signature: "setWhitelist(address,bool)"
+      args: ["0x...", true]
+    - target: "0x..."
+      value: "0"
+      calldata: "0x..."
+  `);
+};
+
+// Main function. The CLI passes the subcommand, run directly it is the first argument.
+export const main = async (subcommand?: string) => {
+  setupOutput();
+  const argv = process.argv;
+  const rest = argv.slice(2);
+  const command = subcommand ?? rest.shift();
+  const positional = getPositionals(rest, VALUE_FLAGS);
+
+  try {
+    switch (command) {
+      case 'create':
+        if (!positional[0]) throw new CommandError('invalid', 'ARGUMENT_INVALID', 'Usage: proposal:create <file>');
+        await createProposal(argv, positional[0]);
+        break;
+      case 'vote':
+        if (!positional[0] || !positional[1]) throw new CommandError('invalid', 'ARGUMENT_INVALID', 'Usage: proposal:vote <proposalId> <for|against|abstain>');
+        await voteOnProposal(argv, positional[0], positional[1]);
+        break;
+      case 'status':
+        if (!positional[0]) throw new CommandError('invalid', 'ARGUMENT_INVALID', 'Usage: proposal:status <proposalId>');
+        await showStatus(positional[0]);
+        break;
+      case 'queue':
+        if (!positional[0]) throw new CommandError('invalid', 'ARGUMENT_INVALID', 'Usage: proposal:queue <file>');
+        await queueProposal(argv, positional[0]);
+        break;
+      case 'execute':
+        if (!positional[0]) throw new CommandError('invalid', 'ARGUMENT_INVALID', 'Usage: proposal:execute <file>');
+        await executeProposal(argv, positional[0]);
+        break;
+      default:
+        showHelp();
+        process.exit(command ? 1 : 0);
+    }
+    finish(`proposal:${command}`);
+  } catch (error: any) {
+    console.error(`${colors.red}Error: ${describeError(error)}${colors.reset}`);
+    if (DEBUG) {
+      console.error(error);
+    }
+    fail(`proposal:${command}`, error);
+  }
+};
+
+if (require.main === module) {
+  main();
+}
@@ -1,652 +1,304 @@
-import axios from 'axios';
-import * as fs from 'fs';
-import * as path from 'path';
 import dotenv from 'dotenv';
-import { getTallyApiToken } from './tally-auth';
+import { ethers } from 'ethers';
+import { resolveDeployment, saveDeployment } from './deployments';
+import { ResolvedNetwork, resolveNetwork } from './networks';
+import { classifyError, CommandError, fail, finish, setupOutput } from './output';
+import { resolveStartBlock } from './start-block';
+import { createAuthenticatedTallyClient } from './tally-auth';
+import { loadTallyConfig, resolveImageUrl, TallyConfig } from './tally-config';
+import {
+  CreateOrganizationInput,
+  TallyApiError,
+  TallyClient,
+  TallyOrganizationSummary,
+  tallyGovernorId,
+  tallyTokenId
+} from './tally-client';
 
 // Load environment variables
-dotenv.config();
+dotenv.config({ path: process.env.ENV_FILE });
 
 // Check if debug mode is enabled
 const DEBUG = process.env.DEBUG === 'true';
 
 /**
- * Gets the contract addresses from the deploy artifacts
+ * Gets the contract addresses and start blocks from the selected deployment record
  */
-async function getContractAddresses() {
+async function getContractAddresses(network: ResolvedNetwork) {
   try {
-    // Need to fetch the governor and token addresses from deployment artifacts
-    const deploymentDir = path.join(process.cwd(), 'broadcast', 'Deploy.s.sol');
+    const deployment = resolveDeployment(network.chainId);
+    const { token, governor } = deployment.contracts;
     
-    // Find the latest deployment file in the directory
-    const chainId = process.env.CHAIN_ID;
-    if (!chainId) {
-      throw new Error('CHAIN_ID environment variable is not set');
-    }
-    
-    const chainDir = path.join(deploymentDir, chainId);
-    if (!fs.existsSync(chainDir)) {
-      throw new Error(`Deployment directory for chain ID ${chainId} not found. Please deploy contracts first.`);
-    }
-    
-    // Get the latest run file
-    const files = fs.readdirSync(chainDir);
-    const latestRunFile = files
-      .filter(file => file.endsWith('.json') && !file.includes('dry-run'))
-      .sort()
-      .pop();
-    
-    if (!latestRunFile) {
-      throw new Error('No deployment files found.');
-    }
-    
-    const deploymentData = JSON.parse(
-      fs.readFileSync(path.join(chainDir, latestRunFile), 'utf8')
-    );
-    
-    // Extract contract addresses from the deployment data
-    const transactions = deploymentData.transactions;
+    console.log(`Using deployment ${deployment.name}`);
     
-    let governorAddress: string | null = null;
-    let tokenAddress: string | null = null;
-    let governorDeployedAtBlock: number | null = null;
-    let tokenDeployedAtBlock: number | null = null;
-    
-    for (const tx of transactions) {
-      if (tx.contractName === 'UngovernableGovernor' && tx.transactionType === 'CREATE') {
-        governorAddress = tx.contractAddress;
-        governorDeployedAtBlock = tx.blockNumber;
-      }
-      if ((tx.contractName === 'UngovernableERC20' || tx.contractName === 'UngovernableToken') && tx.transactionType === 'CREATE') {
-        tokenAddress = tx.contractAddress;
-        tokenDeployedAtBlock = tx.blockNumber;
-      }
-    }
-    
-    console.log(governorAddress, tokenAddress);
-    
-    if (!governorAddress || !tokenAddress) {
-      throw new Error('Failed to find governor or token addresses in deployment data');
-    }
-    
-    // Ensure we have valid block numbers, using fallbacks if not found
-    if (!governorDeployedAtBlock) {
-      console.warn('Warning: Governor deployment block not found, using default value');
-      governorDeployedAtBlock = 8182743; // Using fallback value from the original request
-    }
+    // Tally indexes from the start blocks, so they must be exact rather than guessed
+    const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+    const governorStart = await resolveStartBlock(provider, governor, deployment.broadcastFile);
+    const tokenStart = await resolveStartBlock(provider, token, deployment.broadcastFile);
     
-    if (!tokenDeployedAtBlock) {
-      console.warn('Warning: Token deployment block not found, using default value');
-      tokenDeployedAtBlock = 8182742; // Using fallback value from the original request
+    // Store looked-up blocks so later runs do not need the RPC
+    if (governor.blockNumber === null || token.blockNumber === null) {
+      governor.blockNumber = governorStart.blockNumber;
+      token.blockNumber = tokenStart.blockNumber;
+      saveDeployment(deployment);
     }
     
     if (DEBUG) {
-      console.log('Governor Address:', governorAddress);
-      console.log('Token Address:', tokenAddress);
-      console.log('Governor deployed at block:', governorDeployedAtBlock);
-      console.log('Token deployed at block:', tokenDeployedAtBlock);
+      console.log('Governor Address:', governor.address);
+      console.log('Token Address:', token.address);
+      console.log(`Governor deployed at block: ${governorStart.blockNumber} (from ${governorStart.source})`);
+      console.log(`Token deployed at block: ${tokenStart.blockNumber} (from ${tokenStart.source})`);
     }
     
     return {
-      governorAddress,
-      tokenAddress,
-      governorDeployedAtBlock,
-      tokenDeployedAtBlock
+      governorAddress: governor.address,
+      tokenAddress: token.address,
+      governorDeployedAtBlock: governorStart.blockNumber,
+      tokenDeployedAtBlock: tokenStart.blockNumber
     };
-  } catch (error) {
+  } catch (error: any) {
     console.error('Error fetching contract addresses:', error);
-    process.exit(1);
+    console.error('Refusing to publish without exact start blocks.');
+    throw error instanceof CommandError ? error : new CommandError(classifyError(error).failure, 'START_BLOCK_UNKNOWN', error.message);
   }
 }
 
 /**
  * Gets the DAO configuration to be sent to Tally
  */
-async function getDaoConfig() {
+async function getDaoConfig(): Promise<TallyConfig> {
   try {
-    // First try to get the tally.config.json
-    const tallyConfigPath = path.join(process.cwd(), 'tally.config.json');
+    const config = loadTallyConfig();
     
-    // Check if tally.config.json exists
-    if (fs.existsSync(tallyConfigPath)) {
-      if (DEBUG) {
-        console.log('Using tally.config.json for DAO configuration');
-      }
-      
-      const tallyConfig = JSON.parse(fs.readFileSync(tallyConfigPath, 'utf8'));
-      
-      // Extract the name and description directly from tally.config.json
-      const name = tallyConfig.daoName || 'Ungovernable DAO';
-      const description = tallyConfig.description || 'A DAO created with Ungovernable Governor.';
-      
-      if (DEBUG) {
-        console.log('Using DAO name from tally.config.json:', name);
-        console.log('Using description from tally.config.json:', description);
-      }
-      
-      return { name, description };
-    }
-    
-    // Fallback to the deploy.config.json if tally.config.json doesn't exist
     if (DEBUG) {
-      console.log('tally.config.json not found, falling back to deploy.config.json');
-    }
-    
-    // Get the deploy.config.json
-    const configPath = path.join(process.cwd(), 'deploy.config.json');
-    if (!fs.existsSync(configPath)) {
-      throw new Error('Neither tally.config.json nor deploy.config.json file found');
+      console.log('Using DAO config:', JSON.stringify(config, null, 2));
     }
     
-    const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-    
-    // Use the governor name from config, or fallback to token name if available
-    const governorName = config.governor && config.governor._name 
-      ? config.governor._name 
-      : (config.token && config.token._name 
-        ? `${config.token._name} DAO` 
-        : 'Ungovernable DAO');
-    
-    // Create a description based on the token info if available
-    const tokenInfo = config.token 
-      ? `Token: ${config.token._name || 'Unknown'} (${config.token._symbol || 'Unknown'})`
-      : '';
-    
-    const description = `A DAO created with Ungovernable Governor. ${tokenInfo}`.trim();
-    
-    if (DEBUG) {
-      console.log('Using DAO name from deploy.config.json:', governorName);
-      console.log('Using description from deploy.config.json:', description);
-    }
-    
-    return {
-      name: governorName,
-      description: description
-    };
-  } catch (error) {
-    console.error('Error reading DAO configuration:', error);
-    process.exit(1);
+    return config;
+  } catch (error: any) {
+    console.error(`Error reading DAO configuration: ${error.message}`);
+    throw new CommandError('invalid', 'TALLY_CONFIG_INVALID', error.message);
   }
 }
 
 /**
- * Checks if a DAO already exists on Tally.xyz
+ * Builds the createOrganization input from the deployment and tally.config.json, uploading local images
  */
-async function checkDaoOnTally(governorAddress: string, chainId: string) {
-  try {
-    if (DEBUG) {
-      console.log('Checking if DAO already exists on Tally...');
-    }
-    
-    // Construct the namespace based on the chain ID
-    const namespace = `eip155:${chainId}`;
-    
-    // Construct the API request
-    const tallyApiUrl = 'https://api.tally.xyz/query';
-    
-    // Get the token using SIWE authentication
-    const token = await getTallyApiToken();
-    
-    // API key is also required
-    const apiKey = process.env.TALLY_API_KEY;
-    if (!apiKey) {
-      throw new Error('TALLY_API_KEY environment variable is not set. Please add it to your .env file.');
-    }
-    
-    // We need to try both the organization API and the governor API
-    // Sometimes the governor exists but isn't associated with an organization yet
-    
-    // First, try the direct governor query
-    const governorQuery = `
-      query FindGovernor($id: ID!) {
-        governor(id: $id) {
-          id
-          name
-          organization {
-            id
-            name
-            slug
-          }
-        }
+async function buildOrganizationInput(
+  client: TallyClient,
+  chainId: string,
+  contracts: Awaited<ReturnType<typeof getContractAddresses>>,
+  config: TallyConfig
+): Promise<CreateOrganizationInput> {
+  // Tally uses 'eip155:<chainId>' namespaced ids for governors and tokens
+  const governors: CreateOrganizationInput['governors'] = [
+    {
+      id: tallyGovernorId(chainId, contracts.governorAddress),
+      type: 'openzeppelingovernor',
+      startBlock: contracts.governorDeployedAtBlock,
+      token: {
+        id: tallyTokenId(chainId, contracts.tokenAddress),
+        startBlock: contracts.tokenDeployedAtBlock
       }
-    `;
-    
-    // Then, try the organization search query which can find organizations by governor
-    const orgSearchQuery = `
-      query SearchOrganizations($governorAddress: String!) {
-        organizations(where: {governorAddresses: [$governorAddress]}, first: 1) {
-          id
-          name
-          slug
-          governors {
-            id
-          }
-        }
+    },
+    ...config.governors.map(extra => ({
+      id: tallyGovernorId(extra.chainId, ethers.getAddress(extra.governor)),
+      type: 'openzeppelingovernor',
+      startBlock: extra.governorStartBlock,
+      token: {
+        id: tallyTokenId(extra.chainId, ethers.getAddress(extra.token)),
+        startBlock: extra.tokenStartBlock
       }
-    `;
-    
-    // Variable payloads
-    const governorVariables = {
-      id: `${namespace}:${governorAddress}`
-    };
-    
-    const orgSearchVariables = {
-      governorAddress: governorAddress.toLowerCase()
-    };
-    
-    // Make the API requests
-    if (DEBUG) {
-      console.log('Making check API requests to Tally...');
-    }
-    
-    // First try the governor direct query
-    try {
-      const governorResponse = await axios.post(
-        tallyApiUrl,
-        {
-          query: governorQuery,
-          variables: governorVariables
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-            'api-key': apiKey
-          }
-        }
-      );
-      
-      // If we got a successful response with governor data
-      if (!governorResponse.data.errors && 
-          governorResponse.data.data && 
-          governorResponse.data.data.governor) {
-        
-        const result = governorResponse.data.data.governor;
-        
-        if (DEBUG) {
-          console.log('DAO found on Tally via governor query:', result);
-        }
-        
-        console.log('✅ DAO already exists on Tally!');
-        if (result.organization) {
-          console.log('Organization ID:', result.organization.id);
-          console.log('Organization Name:', result.organization.name);
-          console.log('Organization Slug:', result.organization.slug);
-          console.log(`DAO URL: https://www.tally.xyz/gov/${result.organization.slug}`);
-        } else {
-          console.log('Warning: Governor exists but is not associated with an organization');
-        }
-        
-        return { exists: true, daoInfo: result };
-      }
-    } catch (error: any) {
-      // If it's not a 422 error, something else went wrong
-      if (!error.response || error.response.status !== 422) {
-        throw error;
-      }
-      
-      // 422 just means the governor doesn't exist in this query
+    }))
+  ];
+  
+  const { website, discord, x, github } = config.socials;
+  const metadata: CreateOrganizationInput['metadata'] = {
+    icon: config.icon ? await resolveImageUrl(client, config.icon) : undefined,
+    banner: config.banner ? await resolveImageUrl(client, config.banner) : undefined,
+    socials: { website, discord, twitter: x, github },
+    contact: config.contactEmail ? { email: config.contactEmail } : undefined
+  };
+  
+  return {
+    governors,
+    name: config.name,
+    slug: config.slug,
+    description: config.description,
+    metadata
+  };
+}
+
+export type DaoExistenceState = 'exists' | 'missing' | 'unknown';
+
+export interface DaoExistence {
+  state: DaoExistenceState;
+  organization: TallyOrganizationSummary | null;
+  errors: string[];
+}
+
+/**
+ * Checks whether Tally already knows a governor using read queries only: the governor query, then the
+ * organizations search by governor address. Reports `unknown` instead of `missing` when a query failed,
+ * so a failed lookup is never mistaken for a governor that does not exist.
+ */
+export async function checkDaoExistence(
+  client: TallyClient,
+  governorAddress: string,
+  chainId: string | number
+): Promise<DaoExistence> {
+  const errors: string[] = [];
+  
+  try {
+    const governor = await client.governor(tallyGovernorId(chainId, governorAddress));
+    if (governor) {
       if (DEBUG) {
-        console.log('Governor not found via direct query, trying organization search...');
+        console.log('DAO found on Tally via governor query:', governor);
       }
+      return { state: 'exists', organization: governor.organization, errors };
     }
-    
-    // If governor query failed, try the organization search
-    try {
-      const orgResponse = await axios.post(
-        tallyApiUrl,
-        {
-          query: orgSearchQuery,
-          variables: orgSearchVariables
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-            'api-key': apiKey
-          }
-        }
-      );
-      
-      // Check if we found any organizations
-      if (!orgResponse.data.errors && 
-          orgResponse.data.data && 
-          orgResponse.data.data.organizations && 
-          orgResponse.data.data.organizations.length > 0) {
-        
-        const org = orgResponse.data.data.organizations[0];
-        
-        if (DEBUG) {
-          console.log('DAO found on Tally via organization search:', org);
-        }
-        
-        console.log('✅ DAO already exists on Tally!');
-        console.log('Organization ID:', org.id);
-        console.log('Organization Name:', org.name);
-        console.log('Organization Slug:', org.slug);
-        console.log(`DAO URL: https://www.tally.xyz/gov/${org.slug}`);
-        
-        return { exists: true, daoInfo: org };
-      }
-    } catch (error: any) {
-      // Just continue if there's an error with the org search
+  } catch (error) {
+    errors.push(`governor query: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  
+  if (DEBUG) {
+    console.log('Governor not found via direct query, trying organization search...');
+  }
+  
+  try {
+    const organizations = await client.organizations(governorAddress);
+    if (organizations.length > 0) {
       if (DEBUG) {
-        console.log('Error or no results from organization search');
+        console.log('DAO found on Tally via organization search:', organizations[0]);
       }
+      const { id, name, slug } = organizations[0];
+      return { state: 'exists', organization: { id, name, slug }, errors };
     }
-    
-    // If we get here, the DAO wasn't found via either method
-    if (DEBUG) {
-      console.log('DAO not found in any Tally responses');
-    }
-    return { exists: false, daoInfo: null };
-    
   } catch (error) {
-    console.error('Error checking if DAO exists on Tally:', error);
-    // We'll continue with publishing and let the publish API handle duplicates
-    return { exists: false, daoInfo: null };
+    errors.push(`organizations query: ${error instanceof Error ? error.message : String(error)}`);
   }
+  
+  return { state: errors.length > 0 ? 'unknown' : 'missing', organization: null, errors };
 }
 
 /**
- * Direct check if a governor exists on Tally, without GraphQL
- * More reliable than the checkDaoOnTally function for just checking existence
+ * Prints the organization of a DAO that already exists on Tally
  */
-async function doesGovernorExist(governorAddress: string, chainId: string) {
-  try {
-    if (DEBUG) {
-      console.log('Checking if governor exists on Tally...');
-    }
-    
-    // Construct the namespace based on the chain ID
-    const namespace = `eip155:${chainId}`;
-    
-    // Construct the API request
-    const tallyApiUrl = 'https://api.tally.xyz/query';
-    
-    // Get the token using SIWE authentication
-    const token = await getTallyApiToken();
-    
-    // API key is also required
-    const apiKey = process.env.TALLY_API_KEY;
-    if (!apiKey) {
-      throw new Error('TALLY_API_KEY environment variable is not set. Please add it to your .env file.');
-    }
-    
-    // Instead of a query, let's directly use a lightweight mutation that will fail if governor exists
-    // This is more reliable than queries which might fail for permission reasons
-    const testMutation = `
-      mutation TestCreateOrg($input: CreateOrganizationInput!) {
-        createOrganization(input: $input) {
-          id
-        }
-      }
-    `;
-    
-    // Minimal test input
-    const testVariables = {
-      input: {
-        governors: [
-          {
-            id: `${namespace}:${governorAddress}`,
-            type: "openzeppelingovernor"
-          }
-        ],
-        name: "Test DAO",
-        description: "Test DAO"
-      }
-    };
-    
-    if (DEBUG) {
-      console.log('Testing createOrganization mutation to check if governor exists');
-    }
-    
-    try {
-      const response = await axios.post(
-        tallyApiUrl,
-        {
-          query: testMutation,
-          variables: testVariables
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-            'api-key': apiKey
-          }
-        }
-      );
-      
-      // If we got errors, check if they indicate the governor already exists
-      if (response.data.errors) {
-        const errorsStr = JSON.stringify(response.data.errors);
-        if (errorsStr.includes('governor already exists')) {
-          if (DEBUG) {
-            console.log('Governor already exists (confirmed from test mutation)');
-          }
-          return true;
-        }
-      }
-      
-      // If no errors, or errors don't mention "governor already exists", 
-      // the governor likely doesn't exist
-      if (DEBUG) {
-        console.log('Governor does not exist (test mutation succeeded or had other errors)');
-      }
-      return false;
-      
-    } catch (error: any) {
-      // If we get a 422 status with errors mentioning "governor already exists"
-      if (error.response && 
-          error.response.status === 422 && 
-          error.response.data && 
-          error.response.data.errors) {
-        
-        try {
-          const errorsStr = JSON.stringify(error.response.data.errors);
-          if (errorsStr.includes('governor already exists')) {
-            if (DEBUG) {
-              console.log('Governor already exists (confirmed from error response)');
-            }
-            return true;
-          }
-        } catch (e) {
-          // Error parsing the error response, assume governor doesn't exist
-        }
-      }
-      
-      // For most errors, just assume governor doesn't exist
-      if (DEBUG) {
-        console.log('Error during existence check, assuming governor does not exist');
-      }
-      return false;
-    }
-  } catch (error) {
-    console.error('Error in direct governor check:', error);
-    // Default to false to try creation
-    return false;
+function printExistingDao(existence: DaoExistence) {
+  console.log('✅ DAO already exists on Tally!');
+  if (existence.organization) {
+    console.log('Organization ID:', existence.organization.id);
+    console.log('Organization Name:', existence.organization.name);
+    console.log('Organization Slug:', existence.organization.slug);
+    console.log(`DAO URL: https://www.tally.xyz/gov/${existence.organization.slug}`);
+  } else {
+    console.log('Warning: Governor exists but is not associated with an organization');
   }
 }
 
 /**
- * Publishes the DAO to Tally.xyz
+ * Publishes the selected deployment to Tally.xyz unless it is already there. Fills `result` with the chain and
+ * contract addresses as soon as they are known, so a failure can still report them.
  */
-async function publishToTally() {
+export async function publishDao(result: Record<string, unknown> = {}) {
+  const network = resolveNetwork();
+  if (!network.tally) {
+    throw new CommandError(
+      'invalid',
+      'NETWORK_UNSUPPORTED',
+      `Tally does not support network "${network.name}" (set "tally": true in networks.config.json if it does)`
+    );
+  }
+  const chainId = String(network.chainId);
+  
+  // Get contract addresses and DAO config
+  const contracts = await getContractAddresses(network);
+  const { governorAddress } = contracts;
+  Object.assign(result, { chainId: network.chainId, governor: governorAddress, token: contracts.tokenAddress });
+  const daoConfig = await getDaoConfig();
+  
+  console.log('Using DAO name:', daoConfig.name);
+  console.log('Using DAO description:', daoConfig.description);
+  if (daoConfig.governors.length > 0) {
+    console.log(`Including ${daoConfig.governors.length} additional governor(s) from tally.config.json`);
+  }
+  
+  // Get the token using SIWE authentication
+  const client = await createAuthenticatedTallyClient();
+  
+  console.log('Checking if DAO already exists on Tally...');
+  
+  const existence = await checkDaoExistence(client, governorAddress, chainId);
+  
+  if (existence.state === 'exists') {
+    printExistingDao(existence);
+    return { ...result, ...organizationResult('exists', existence.organization) };
+  }
+  if (existence.state === 'unknown') {
+    throw new CommandError(
+      'unavailable',
+      'TALLY_STATE_UNKNOWN',
+      `Could not determine whether the DAO already exists on Tally, not creating it:\n  - ${existence.errors.join('\n  - ')}`
+    );
+  }
+  
+  console.log('Creating new DAO on Tally...');
+  
+  const input = await buildOrganizationInput(client, chainId, contracts, daoConfig);
+  
   try {
-    // Get contract addresses and DAO config
-    const { governorAddress, tokenAddress, governorDeployedAtBlock, tokenDeployedAtBlock } = await getContractAddresses();
-    const { name: daoName, description: daoDescription } = await getDaoConfig();
-    
-    const chainId = process.env.CHAIN_ID;
-    if (!chainId) {
-      throw new Error('CHAIN_ID environment variable is not set');
-    }
+    const created = await client.createOrganization(input);
     
-    console.log('Using DAO name:', daoName);
-    console.log('Using DAO description:', daoDescription);
-    console.log('Checking if DAO already exists on Tally...');
+    console.log('✅ DAO successfully published to Tally!');
+    console.log(`DAO ID: ${created.id}`);
+    console.log(`DAO Slug: ${created.slug}`);
+    console.log(`DAO URL: https://www.tally.xyz/gov/${created.slug}`);
     
-    // First check if the governor exists (this check is more reliable for existence)
-    const governorExists = await doesGovernorExist(governorAddress, chainId);
-    
-    if (governorExists) {
-      console.log('✅ DAO already exists on Tally.');
-      
-      // Try to get the details
-      const { daoInfo } = await checkDaoOnTally(governorAddress, chainId);
-      if (daoInfo) {
-        return daoInfo;
+    return { ...result, ...organizationResult('created', { id: created.id, name: daoConfig.name, slug: created.slug }) };
+  } catch (error) {
+    // Handle the already exists error gracefully
+    if (error instanceof TallyApiError && error.kind === 'already-exists') {
+      const existing = await checkDaoExistence(client, governorAddress, chainId);
+      if (existing.state === 'exists') {
+        printExistingDao(existing);
       } else {
+        console.log('✅ DAO already exists on Tally (confirmed during creation attempt).');
         console.log('Could not retrieve DAO details. Please check manually on Tally.xyz.');
-        return { exists: true };
       }
+      return { ...result, ...organizationResult('exists', existing.organization) };
     }
     
-    console.log('Creating new DAO on Tally...');
-    
-    // Construct the namespace based on the chain ID
-    // Tally uses 'eip155:<chainId>' format for its namespaces
-    const namespace = `eip155:${chainId}`;
-    
-    // Construct the API request
-    const tallyApiUrl = 'https://api.tally.xyz/query';
-    
-    // Get the token using SIWE authentication
-    const token = await getTallyApiToken();
-    
-    // API key is also required
-    const apiKey = process.env.TALLY_API_KEY;
-    if (!apiKey) {
-      throw new Error('TALLY_API_KEY environment variable is not set. Please add it to your .env file.');
-    }
-    
-    // Construct the GraphQL mutation based on the observed API call
-    const mutation = `
-      mutation CreateDAO($input: CreateOrganizationInput!) {
-        createOrganization(input: $input) {
-          id
-          slug
-        }
-      }
-    `;
-    
-    // Variable payload based on the observed API call
-    const variables = {
-      input: {
-        governors: [
-          {
-            id: `${namespace}:${governorAddress}`,
-            type: "openzeppelingovernor",
-            startBlock: governorDeployedAtBlock,
-            token: {
-              id: `${namespace}/erc20:${tokenAddress}`,
-              startBlock: tokenDeployedAtBlock
-            }
-          }
-        ],
-        name: daoName,
-        description: daoDescription
-      }
-    };
-    
-    // Make the API request
-    if (DEBUG) {
-      console.log('Making publish API request to Tally:');
-      console.log('URL:', tallyApiUrl);
-      console.log('Query:', mutation.trim());
-      console.log('Variables:', JSON.stringify(variables, null, 2));
-      console.log('Headers:', {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token.substring(0, 10)}...`,
-        'api-key': `${apiKey.substring(0, 10)}...`
-      });
-    }
-    
-    try {
-      const response = await axios.post(
-        tallyApiUrl,
-        {
-          query: mutation,
-          variables: variables
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-            'api-key': apiKey
-          }
-        }
-      );
-      
-      // Check if the request was successful
-      if (response.data.errors) {
-        if (DEBUG) {
-          console.error('API Response Errors:', JSON.stringify(response.data.errors, null, 2));
-        }
-        
-        // Check for already exists error and handle it gracefully
-        const errorsStr = JSON.stringify(response.data.errors);
-        if (errorsStr.includes('governor already exists')) {
-          console.log('✅ DAO already exists on Tally (confirmed during creation attempt).');
-          
-          // Try to get the details 
-          const { daoInfo } = await checkDaoOnTally(governorAddress, chainId);
-          if (daoInfo) {
-            return daoInfo;
-          } else {
-            console.log('Could not retrieve DAO details. Please check manually on Tally.xyz.');
-            return { exists: true };
-          }
-        }
-        
-        throw new Error(`Tally API Error: ${JSON.stringify(response.data.errors)}`);
-      }
-      
-      const result = response.data.data.createOrganization;
-      
-      console.log('✅ DAO successfully published to Tally!');
-      console.log(`DAO ID: ${result.id}`);
-      console.log(`DAO Slug: ${result.slug}`);
-      console.log(`DAO URL: https://www.tally.xyz/gov/${result.slug}`);
-      
-      return result;
-    } catch (error: any) {
-      // Handle specific error cases
-      if (error.response && error.response.status === 422 && 
-          error.response.data && error.response.data.errors) {
-        
-        // Try to get the error message
-        let errorMessage = '';
-        try {
-          errorMessage = JSON.stringify(error.response.data.errors);
-        } catch (e) {
-          errorMessage = 'Unknown error';
-        }
-        
-        if (errorMessage.includes('governor already exists')) {
-          console.log('✅ DAO already exists on Tally (confirmed from error response).');
-          
-          // Try to get the details
-          const { daoInfo } = await checkDaoOnTally(governorAddress, chainId);
-          if (daoInfo) {
-            return daoInfo;
-          } else {
-            console.log('Could not retrieve DAO details. Please check manually on Tally.xyz.');
-            return { exists: true };
-          }
-        }
-        
-        // If it's not a "governor already exists" error, show the actual error
-        console.error('Error response from Tally API:', errorMessage);
-      }
-      
-      throw error;
-    }
+    throw error;
+  }
+}
+
+/**
+ * Publishes the DAO to Tally.xyz
+ */
+export async function publishToTally() {
+  setupOutput();
+  const result: Record<string, unknown> = {};
+  
+  try {
+    finish('publish:tally', await publishDao(result));
   } catch (error) {
     console.error('Failed to publish DAO to Tally:', error);
-    process.exit(1);
+    fail('publish:tally', error, result);
   }
 }
 
+/**
+ * The organization fields of the --json result
+ */
+function organizationResult(state: 'created' | 'exists', organization: TallyOrganizationSummary | null) {
+  return {
+    state,
+    organization,
+    url: organization ? `https://www.tally.xyz/gov/${organization.slug}` : null
+  };
+}
+
 // Execute the script
-publishToTally(); 
\ No newline at end of file
+if (require.main === module) {
+  publishToTally();
+} 
\ No newline at end of file
@@ -0,0 +1,230 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { askSecret } from './prompt';
+
+/**
+ * Where the scripts and forge get their signing key from, selected with the SIGNER variable
+ */
+export type SignerBackend = 'private-key' | 'keystore' | 'mnemonic' | 'rpc';
+
+export const SIGNER_BACKENDS: SignerBackend[] = ['private-key', 'keystore', 'mnemonic', 'rpc'];
+
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/0";
+
+/**
+ * The signer settings read from the environment
+ */
+export interface SignerConfig {
+  backend: SignerBackend;
+  privateKey?: string;
+  keystorePath?: string;
+  keystorePasswordFile?: string;
+  mnemonicFile?: string;
+  derivationPath: string;
+  rpcUrl?: string;
+  address?: string;
+}
+
+/**
+ * The variables each backend cannot run without
+ */
+export const SIGNER_REQUIRED_VARS: Record<SignerBackend, string[]> = {
+  'private-key': ['PRIVATE_KEY'],
+  keystore: ['KEYSTORE_PATH'],
+  mnemonic: ['MNEMONIC_FILE'],
+  rpc: ['SIGNER_RPC_URL']
+};
+
+/**
+ * Reads SIGNER and the variables of the selected backend, failing on the ones it needs but are unset
+ */
+export function loadSignerConfig(env: NodeJS.ProcessEnv = process.env): SignerConfig {
+  const backend = (env.SIGNER || 'private-key') as SignerBackend;
+  if (!SIGNER_BACKENDS.includes(backend)) {
+    throw new Error(`Unknown SIGNER "${backend}". Use one of: ${SIGNER_BACKENDS.join(', ')}`);
+  }
+
+  const config: SignerConfig = {
+    backend,
+    privateKey: env.PRIVATE_KEY || undefined,
+    keystorePath: env.KEYSTORE_PATH || undefined,
+    keystorePasswordFile: env.KEYSTORE_PASSWORD_FILE || undefined,
+    mnemonicFile: env.MNEMONIC_FILE || undefined,
+    derivationPath: env.MNEMONIC_PATH || DEFAULT_DERIVATION_PATH,
+    rpcUrl: env.SIGNER_RPC_URL || undefined,
+    address: env.SIGNER_ADDRESS || undefined
+  };
+
+  for (const variable of SIGNER_REQUIRED_VARS[backend]) {
+    if (!env[variable]) {
+      throw new Error(`${variable} environment variable is not set (required by SIGNER=${backend}). Please add it to your .env file.`);
+    }
+  }
+  return config;
+}
+
+/**
+ * Decrypts the keystore, reading the password from KEYSTORE_PASSWORD_FILE or prompting for it
+ */
+async function loadKeystoreWallet(config: SignerConfig): Promise<ethers.Wallet | ethers.HDNodeWallet> {
+  const json = fs.readFileSync(path.resolve(process.cwd(), config.keystorePath!), 'utf8');
+  const password = config.keystorePasswordFile
+    ? fs.readFileSync(path.resolve(process.cwd(), config.keystorePasswordFile), 'utf8').trim()
+    : await askSecret(`Password for keystore ${config.keystorePath}: `);
+  return ethers.Wallet.fromEncryptedJson(json, password);
+}
+
+/**
+ * Derives the wallet at MNEMONIC_PATH from the BIP-39 phrase in MNEMONIC_FILE
+ */
+function loadMnemonicWallet(config: SignerConfig): ethers.HDNodeWallet {
+  const phrase = fs.readFileSync(path.resolve(process.cwd(), config.mnemonicFile!), 'utf8').trim();
+  if (!ethers.Mnemonic.isValidMnemonic(phrase)) {
+    throw new Error(`${config.mnemonicFile} does not contain a valid BIP-39 mnemonic`);
+  }
+  return ethers.HDNodeWallet.fromPhrase(phrase, undefined, config.derivationPath);
+}
+
+/**
+ * Connects to a JSON-RPC signer (such as anvil or a local wallet bridge) that signs with
+ * personal_sign/eth_signTypedData_v4 and sends with eth_sendTransaction
+ */
+async function loadRpcSigner(config: SignerConfig): Promise<ethers.JsonRpcSigner> {
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  if (config.address) {
+    return provider.getSigner(ethers.getAddress(config.address));
+  }
+  const accounts: string[] = await provider.send('eth_accounts', []);
+  if (accounts.length === 0) {
+    throw new Error(`The signer at ${config.rpcUrl} has no accounts. Set SIGNER_ADDRESS or unlock an account.`);
+  }
+  return provider.getSigner(accounts[0]);
+}
+
+/**
+ * Builds the signer for a config, without connecting it to a chain
+ */
+export async function createSigner(config: SignerConfig): Promise<ethers.Signer> {
+  switch (config.backend) {
+    case 'private-key':
+      return new ethers.Wallet(config.privateKey!);
+    case 'keystore':
+      return loadKeystoreWallet(config);
+    case 'mnemonic':
+      return loadMnemonicWallet(config);
+    case 'rpc':
+      return loadRpcSigner(config);
+  }
+}
+
+// How long a transaction sent through SIGNER_RPC_URL may take to show up on the network provider
+const RELAY_POLL_INTERVAL_MS = 1000;
+const RELAY_POLL_ATTEMPTS = 60;
+
+/**
+ * A JSON-RPC signer connected to the network provider: nonces, gas estimates and receipts come from the
+ * network, only signing and eth_sendTransaction go to SIGNER_RPC_URL
+ */
+class RpcEndpointSigner extends ethers.AbstractSigner {
+  constructor(readonly endpoint: ethers.JsonRpcSigner, provider: ethers.Provider | null) {
+    super(provider);
+  }
+
+  connect(provider: ethers.Provider | null): RpcEndpointSigner {
+    return new RpcEndpointSigner(this.endpoint, provider);
+  }
+
+  getAddress(): Promise<string> {
+    return this.endpoint.getAddress();
+  }
+
+  signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    return this.endpoint.signTransaction(tx);
+  }
+
+  signMessage(message: string | Uint8Array): Promise<string> {
+    return this.endpoint.signMessage(message);
+  }
+
+  signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return this.endpoint.signTypedData(domain, types, value);
+  }
+
+  async sendTransaction(tx: ethers.TransactionRequest): Promise<ethers.TransactionResponse> {
+    if (!this.provider) {
+      return this.endpoint.sendTransaction(tx);
+    }
+    const hash = await this.endpoint.sendUncheckedTransaction(await this.populateTransaction(tx));
+    for (let attempt = 0; attempt < RELAY_POLL_ATTEMPTS; attempt++) {
+      const response = await this.provider.getTransaction(hash);
+      if (response) {
+        return response;
+      }
+      await new Promise(resolve => setTimeout(resolve, RELAY_POLL_INTERVAL_MS));
+    }
+    throw new Error(`Transaction ${hash} sent through SIGNER_RPC_URL did not reach the network provider`);
+  }
+}
+
+// Decrypted once per process so a keystore password is only asked for once
+let baseSigner: Promise<ethers.Signer> | undefined;
+
+/**
+ * Returns the signer that sends transactions for the scripts, connected to `provider` when one is given.
+ * A JSON-RPC signer still signs and sends through its own endpoint.
+ */
+export async function getSigner(provider?: ethers.Provider): Promise<ethers.Signer> {
+  if (!baseSigner) {
+    baseSigner = createSigner(loadSignerConfig());
+    baseSigner.catch(() => (baseSigner = undefined));
+  }
+  const signer = await baseSigner;
+  if (!provider) {
+    return signer;
+  }
+  return signer instanceof ethers.JsonRpcSigner ? new RpcEndpointSigner(signer, provider) : signer.connect(provider);
+}
+
+/**
+ * The wallet options for `forge script` matching the configured backend. The private key backend passes
+ * nothing, since the scripts read PRIVATE_KEY from the environment instead of the command line. With
+ * --unlocked forge sends through its RPC endpoint, so the JSON-RPC backend also sets --rpc-url.
+ */
+export async function forgeSignerArgs(config: SignerConfig = loadSignerConfig()): Promise<string[]> {
+  switch (config.backend) {
+    case 'private-key':
+      return [];
+    case 'keystore':
+      return [
+        '--keystore',
+        config.keystorePath!,
+        ...(config.keystorePasswordFile ? ['--password-file', config.keystorePasswordFile] : [])
+      ];
+    case 'mnemonic':
+      return ['--mnemonics', config.mnemonicFile!, '--mnemonic-derivation-paths', config.derivationPath];
+    case 'rpc': {
+      const signer = await loadRpcSigner(config);
+      return ['--rpc-url', config.rpcUrl!, '--unlocked', '--sender', await signer.getAddress()];
+    }
+  }
+}
+
+// Print the forge wallet options for running forge by hand, or the signer address
+if (require.main === module) {
+  const command = process.argv[2];
+  const run = command === 'forge-args'
+    ? forgeSignerArgs().then(args => console.log(args.join(' ')))
+    : command === 'address'
+      ? getSigner().then(signer => signer.getAddress()).then(address => console.log(address))
+      : Promise.reject(new Error('Usage: ts-node ts-scripts/signer.ts forge-args|address'));
+
+  run.catch(error => {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,198 @@
+import { ethers } from 'ethers';
+
+/**
+ * The fields of an EIP-4361 Sign-In with Ethereum message
+ */
+export interface SiweMessage {
+  scheme?: string;
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+const PREAMBLE = ' wants you to sign in with your Ethereum account:';
+const RFC3339 = /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/;
+const NONCE = /^[a-zA-Z0-9]{8,}$/;
+const DOMAIN = /^[^\s/?#]+$/;
+
+/**
+ * Error raised for a message that is not valid EIP-4361
+ */
+export class SiweError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiweError';
+  }
+}
+
+function assertUri(value: string, field: string) {
+  try {
+    new URL(value);
+  } catch (error) {
+    throw new SiweError(`${field} "${value}" is not a valid URI`);
+  }
+}
+
+function assertTimestamp(value: string | undefined, field: string): number | undefined {
+  if (value === undefined) return undefined;
+  const time = Date.parse(value);
+  if (!RFC3339.test(value) || Number.isNaN(time)) {
+    throw new SiweError(`${field} "${value}" is not an RFC 3339 timestamp`);
+  }
+  return time;
+}
+
+/**
+ * Checks every field against EIP-4361, and that the message has not expired at `now`
+ */
+export function validateSiweMessage(message: SiweMessage, now = Date.now()): void {
+  if (!DOMAIN.test(message.domain)) {
+    throw new SiweError(`Domain "${message.domain}" must be a host without scheme or path`);
+  }
+  if (!ethers.isAddress(message.address) || ethers.getAddress(message.address) !== message.address) {
+    throw new SiweError(`Address "${message.address}" must be an EIP-55 checksummed address`);
+  }
+  if (message.statement !== undefined && /\n/.test(message.statement)) {
+    throw new SiweError('Statement must not contain line breaks');
+  }
+  assertUri(message.uri, 'URI');
+  if (message.version !== '1') {
+    throw new SiweError(`Version must be 1, got "${message.version}"`);
+  }
+  if (!Number.isInteger(message.chainId) || message.chainId <= 0) {
+    throw new SiweError(`Chain ID must be a positive integer, got ${message.chainId}`);
+  }
+  if (!NONCE.test(message.nonce)) {
+    throw new SiweError('Nonce must be at least 8 alphanumeric characters');
+  }
+
+  const issuedAt = assertTimestamp(message.issuedAt, 'Issued At')!;
+  const expiresAt = assertTimestamp(message.expirationTime, 'Expiration Time');
+  assertTimestamp(message.notBefore, 'Not Before');
+  if (expiresAt !== undefined) {
+    if (expiresAt <= issuedAt) {
+      throw new SiweError(`Expiration Time ${message.expirationTime} is not after Issued At ${message.issuedAt}`);
+    }
+    if (expiresAt <= now) {
+      throw new SiweError(`Expiration Time ${message.expirationTime} has already passed`);
+    }
+  }
+
+  if (message.requestId !== undefined && /\n/.test(message.requestId)) {
+    throw new SiweError('Request ID must not contain line breaks');
+  }
+  for (const resource of message.resources || []) {
+    assertUri(resource, 'Resource');
+  }
+}
+
+/**
+ * Builds the EIP-4361 text of a message after validating it
+ */
+export function buildSiweMessage(message: SiweMessage, now = Date.now()): string {
+  validateSiweMessage(message, now);
+
+  const prefix = message.scheme ? `${message.scheme}://${message.domain}` : message.domain;
+  const lines = [
+    `${prefix}${PREAMBLE}`,
+    message.address,
+    '',
+    ...(message.statement !== undefined ? [message.statement] : []),
+    '',
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  ];
+  if (message.expirationTime) lines.push(`Expiration Time: ${message.expirationTime}`);
+  if (message.notBefore) lines.push(`Not Before: ${message.notBefore}`);
+  if (message.requestId !== undefined) lines.push(`Request ID: ${message.requestId}`);
+  if (message.resources && message.resources.length > 0) {
+    lines.push('Resources:', ...message.resources.map(resource => `- ${resource}`));
+  }
+  return lines.join('\n');
+}
+
+// The optional single-line fields, all strings
+type OptionalField = keyof Pick<SiweMessage, 'expirationTime' | 'notBefore' | 'requestId'>;
+
+const OPTIONAL_FIELDS: [string, OptionalField][] = [
+  ['Expiration Time', 'expirationTime'],
+  ['Not Before', 'notBefore'],
+  ['Request ID', 'requestId']
+];
+
+/**
+ * Parses EIP-4361 text back into its fields. Expiry is not checked, so old messages can be inspected.
+ */
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split('\n');
+  let i = 0;
+  const next = () => {
+    if (i >= lines.length) throw new SiweError('Message ended unexpectedly');
+    return lines[i++];
+  };
+  const field = (name: string) => {
+    const line = next();
+    if (!line.startsWith(`${name}: `)) {
+      throw new SiweError(`Expected "${name}:" on line ${i}, got "${line}"`);
+    }
+    return line.slice(name.length + 2);
+  };
+
+  const header = next();
+  if (!header.endsWith(PREAMBLE)) {
+    throw new SiweError('Missing "wants you to sign in with your Ethereum account:" header');
+  }
+  const origin = header.slice(0, -PREAMBLE.length);
+  const schemeMatch = /^([a-zA-Z][a-zA-Z0-9+.-]*):\/\/(.*)$/.exec(origin);
+
+  const address = next();
+  if (next() !== '') throw new SiweError(`Expected a blank line after the address on line ${i}`);
+
+  let statement: string | undefined;
+  if (lines[i] !== '') {
+    statement = next();
+  }
+  if (next() !== '') throw new SiweError(`Expected a blank line before URI on line ${i}`);
+
+  const message: SiweMessage = {
+    ...(schemeMatch ? { scheme: schemeMatch[1], domain: schemeMatch[2] } : { domain: origin }),
+    address,
+    ...(statement !== undefined ? { statement } : {}),
+    uri: field('URI'),
+    version: field('Version') as '1',
+    chainId: Number(field('Chain ID')),
+    nonce: field('Nonce'),
+    issuedAt: field('Issued At')
+  };
+
+  for (const [name, key] of OPTIONAL_FIELDS) {
+    if (lines[i]?.startsWith(`${name}: `)) {
+      message[key] = field(name);
+    }
+  }
+  if (lines[i] === 'Resources:') {
+    next();
+    message.resources = [];
+    while (i < lines.length && lines[i].startsWith('- ')) {
+      message.resources.push(next().slice(2));
+    }
+  }
+  if (i < lines.length) {
+    throw new SiweError(`Unexpected content on line ${i + 1}: "${lines[i]}"`);
+  }
+
+  validateSiweMessage(message, 0);
+  return message;
+}
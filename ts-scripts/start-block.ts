@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { ContractDeployment } from './deployments';
+
+// Check if debug mode is enabled
+const DEBUG = process.env.DEBUG === 'true';
+
+export type StartBlockSource = 'record' | 'broadcast-receipt' | 'rpc-receipt' | 'code-search';
+
+export interface StartBlock {
+  blockNumber: number;
+  source: StartBlockSource;
+}
+
+/**
+ * Reads the block number of a transaction from the `receipts` array of a forge broadcast file
+ */
+function findBroadcastReceiptBlock(broadcastFile: string, transactionHash: string): number | null {
+  const file = path.resolve(process.cwd(), broadcastFile);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  const run = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const receipt = (run.receipts || []).find(
+    (r: any) => r.transactionHash?.toLowerCase() === transactionHash.toLowerCase()
+  );
+  return receipt?.blockNumber !== undefined ? Number(receipt.blockNumber) : null;
+}
+
+/**
+ * Binary-searches eth_getCode for the first block at which `address` has code
+ */
+export async function findCodeDeploymentBlock(provider: ethers.Provider, address: string): Promise<number | null> {
+  const latest = await provider.getBlockNumber();
+  if ((await provider.getCode(address, latest)) === '0x') {
+    return null;
+  }
+
+  let low = 0;
+  let high = latest;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    const code = await provider.getCode(address, middle);
+    if (code === '0x') {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Resolves the block a contract was created in, from the deployment record, the broadcast receipts,
+ * the creation transaction receipt on the RPC, or an eth_getCode search, in that order.
+ * Throws instead of guessing when none of them succeeds.
+ */
+export async function resolveStartBlock(
+  provider: ethers.Provider,
+  contract: ContractDeployment,
+  broadcastFile?: string
+): Promise<StartBlock> {
+  if (contract.blockNumber !== null && contract.blockNumber !== undefined) {
+    return { blockNumber: contract.blockNumber, source: 'record' };
+  }
+
+  // A reused deterministic contract has no creation transaction in the record, only its code can be searched
+  const { transactionHash } = contract;
+  if (transactionHash) {
+    if (broadcastFile) {
+      const blockNumber = findBroadcastReceiptBlock(broadcastFile, transactionHash);
+      if (blockNumber !== null) {
+        return { blockNumber, source: 'broadcast-receipt' };
+      }
+    }
+
+    try {
+      const receipt = await provider.getTransactionReceipt(transactionHash);
+      if (receipt && receipt.contractAddress && ethers.getAddress(receipt.contractAddress) === ethers.getAddress(contract.address)) {
+        return { blockNumber: receipt.blockNumber, source: 'rpc-receipt' };
+      }
+    } catch (error) {
+      if (DEBUG) {
+        console.log(`Could not fetch the creation receipt of ${contract.contractName}:`, error);
+      }
+    }
+  }
+
+  try {
+    const blockNumber = await findCodeDeploymentBlock(provider, contract.address);
+    if (blockNumber !== null) {
+      return { blockNumber, source: 'code-search' };
+    }
+  } catch (error) {
+    if (DEBUG) {
+      console.log(`eth_getCode search for ${contract.contractName} failed (the RPC may not serve historical state):`, error);
+    }
+  }
+
+  throw new Error(
+    `Could not determine the deployment block of ${contract.contractName} at ${contract.address}. ` +
+      'Add "blockNumber" to its deployment record and try again.'
+  );
+}
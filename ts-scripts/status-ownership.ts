@@ -0,0 +1,317 @@
+#!/usr/bin/env ts-node
+import * as fs from 'fs';
+import * as path from 'path';
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { loadArtifact } from './artifacts';
+import { namedConstructorArgs } from './constructor-args';
+import { DeploymentRecord, resolveDeployment } from './deployments';
+import { resolveNetwork } from './networks';
+import { fail, finish, setupOutput } from './output';
+import { describeError } from './tx';
+import { DeployConfig, formatDuration, formatTokenAmount, loadDeployConfig } from './validate-config';
+
+// Load environment variables
+dotenv.config({ path: process.env.ENV_FILE });
+
+// Check if debug mode is enabled
+const DEBUG = process.env.DEBUG === 'true';
+
+// Define ANSI color codes for console output
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+};
+
+const EXPECTED_CLOCK_MODE = 'mode=timestamp';
+
+export interface OwnershipCheck {
+  name: string;
+  pass: boolean;
+  expected: string;
+  actual: string;
+}
+
+export interface OwnershipReport {
+  network: string;
+  chainId: number;
+  deployment: string;
+  token: string;
+  governor: string;
+  checkedAt: string;
+  blockNumber: number;
+  configMatchesRecord: boolean;
+  isTransferPaused: boolean;
+  pass: boolean;
+  checks: OwnershipCheck[];
+}
+
+/**
+ * The token and governor state read at one block
+ */
+export interface OnChainState {
+  owner: string;
+  adminRole: bigint;
+  governorRoles: bigint;
+  isTransferPaused: boolean;
+  tokenName: string;
+  tokenSymbol: string;
+  governorName: string;
+  votingDelay: bigint;
+  votingPeriod: bigint;
+  proposalThreshold: bigint;
+  quorumNumerator: bigint;
+  lateQuorumVoteExtension: bigint;
+  clockMode: string;
+  governorToken: string;
+}
+
+const result = <T>(name: string, expected: T, actual: T, display: (value: T) => string = String): OwnershipCheck => ({
+  name,
+  pass: expected === actual,
+  expected: display(expected),
+  actual: display(actual)
+});
+
+/**
+ * The token and governor settings a deployment is expected to have
+ */
+interface ExpectedSettings {
+  tokenName: string;
+  tokenSymbol: string;
+  governorName: string;
+  votingDelay: bigint;
+  votingPeriod: bigint;
+  proposalThreshold: bigint;
+  quorumNumerator: bigint;
+  lateQuorumVoteExtension: bigint;
+}
+
+/**
+ * Compares every setting with one source of expected values, naming the source in each check
+ */
+const settingChecks = (source: string, expected: ExpectedSettings, state: OnChainState): OwnershipCheck[] => [
+  result(`token.name() matches ${source}`, expected.tokenName, state.tokenName),
+  result(`token.symbol() matches ${source}`, expected.tokenSymbol, state.tokenSymbol),
+  result(`governor.name() matches ${source}`, expected.governorName, state.governorName),
+  result(`governor.votingDelay() matches ${source}`, expected.votingDelay, state.votingDelay, v => formatDuration(Number(v))),
+  result(`governor.votingPeriod() matches ${source}`, expected.votingPeriod, state.votingPeriod, v => formatDuration(Number(v))),
+  result(
+    `governor.proposalThreshold() matches ${source}`,
+    expected.proposalThreshold,
+    state.proposalThreshold,
+    v => `${formatTokenAmount(v)} ${state.tokenSymbol}`
+  ),
+  result(`governor.quorumNumerator() matches ${source}`, expected.quorumNumerator, state.quorumNumerator, v => `${v}%`),
+  result(
+    `governor.lateQuorumVoteExtension() matches ${source}`,
+    expected.lateQuorumVoteExtension,
+    state.lateQuorumVoteExtension,
+    v => formatDuration(Number(v))
+  )
+];
+
+/**
+ * Compares the on-chain state with the constructor arguments in the deployment record, keyed by parameter name,
+ * and with deploy.config.json
+ */
+export function ownershipChecks(
+  deployment: DeploymentRecord,
+  recordedToken: Record<string, unknown>,
+  recordedGovernor: Record<string, unknown>,
+  config: DeployConfig,
+  state: OnChainState
+): OwnershipCheck[] {
+  return [
+    result('token.owner() is renounced', ethers.ZeroAddress, state.owner),
+    {
+      name: 'token.rolesOf(governor) includes DEFAULT_ADMIN_ROLE',
+      pass: (state.governorRoles & state.adminRole) === state.adminRole,
+      expected: `includes ${state.adminRole}`,
+      actual: String(state.governorRoles)
+    },
+    result('governor.token() is the recorded token', deployment.contracts.token.address, state.governorToken),
+    ...settingChecks(
+      'the deployment record',
+      {
+        tokenName: recordedToken._name as string,
+        tokenSymbol: recordedToken._symbol as string,
+        governorName: recordedGovernor._name as string,
+        votingDelay: recordedGovernor._initialVotingDelay as bigint,
+        votingPeriod: recordedGovernor._initialVotingPeriod as bigint,
+        proposalThreshold: recordedGovernor._initialProposalThreshold as bigint,
+        quorumNumerator: recordedGovernor._initialQuorumPercentage as bigint,
+        lateQuorumVoteExtension: recordedGovernor._initialVoteExtension as bigint
+      },
+      state
+    ),
+    ...settingChecks(
+      'deploy.config.json',
+      {
+        tokenName: config.token._name,
+        tokenSymbol: config.token._symbol,
+        governorName: config.governor._name,
+        votingDelay: BigInt(config.governor._initialVotingDelay),
+        votingPeriod: BigInt(config.governor._initialVotingPeriod),
+        proposalThreshold: config.governor._initialProposalThreshold,
+        quorumNumerator: BigInt(config.governor._initialQuorumPercentage),
+        lateQuorumVoteExtension: BigInt(config.governor._initialVoteExtension)
+      },
+      state
+    ),
+    result('governor.CLOCK_MODE()', EXPECTED_CLOCK_MODE, state.clockMode)
+  ];
+}
+
+/**
+ * Reads the token and governor state after renouncing and compares it with the deployment record and deploy.config.json
+ */
+export async function checkOwnership(
+  provider: ethers.Provider,
+  deployment: DeploymentRecord,
+  config: DeployConfig
+): Promise<Omit<OwnershipReport, 'network' | 'chainId' | 'configMatchesRecord'>> {
+  const tokenAddress = deployment.contracts.token.address;
+  const governorAddress = deployment.contracts.governor.address;
+  const tokenAbi = loadArtifact(deployment.contracts.token.contractName).abi;
+  const governorAbi = loadArtifact('UngovernableGovernor').abi;
+  const token = new ethers.Contract(tokenAddress, tokenAbi, provider);
+  const governor = new ethers.Contract(governorAddress, governorAbi, provider);
+
+  const blockNumber = await provider.getBlockNumber();
+  const [
+    owner,
+    adminRole,
+    governorRoles,
+    isTransferPaused,
+    tokenName,
+    tokenSymbol,
+    governorName,
+    votingDelay,
+    votingPeriod,
+    proposalThreshold,
+    quorumNumerator,
+    lateQuorumVoteExtension,
+    clockMode,
+    governorToken
+  ] = await Promise.all([
+    token.owner({ blockTag: blockNumber }),
+    token.DEFAULT_ADMIN_ROLE(),
+    token.rolesOf(governorAddress, { blockTag: blockNumber }),
+    token.isTransferPaused({ blockTag: blockNumber }),
+    token.name(),
+    token.symbol(),
+    governor.name(),
+    governor.votingDelay({ blockTag: blockNumber }),
+    governor.votingPeriod({ blockTag: blockNumber }),
+    governor.proposalThreshold({ blockTag: blockNumber }),
+    governor['quorumNumerator()']({ blockTag: blockNumber }),
+    governor.lateQuorumVoteExtension({ blockTag: blockNumber }),
+    governor.CLOCK_MODE(),
+    governor.token()
+  ]);
+
+  const checks = ownershipChecks(
+    deployment,
+    namedConstructorArgs(tokenAbi, deployment.contracts.token.constructorArgs),
+    namedConstructorArgs(governorAbi, deployment.contracts.governor.constructorArgs),
+    config,
+    {
+      owner,
+      adminRole,
+      governorRoles,
+      isTransferPaused,
+      tokenName,
+      tokenSymbol,
+      governorName,
+      votingDelay,
+      votingPeriod,
+      proposalThreshold,
+      quorumNumerator,
+      lateQuorumVoteExtension,
+      clockMode,
+      governorToken
+    }
+  );
+
+  return {
+    deployment: deployment.name,
+    token: tokenAddress,
+    governor: governorAddress,
+    checkedAt: new Date().toISOString(),
+    blockNumber,
+    isTransferPaused,
+    pass: checks.every(c => c.pass),
+    checks
+  };
+}
+
+/**
+ * Checks the handover of the selected deployment on the selected network
+ */
+export async function ownershipStatus(): Promise<OwnershipReport> {
+  const network = resolveNetwork();
+  const deployment = resolveDeployment(network.chainId);
+  const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+
+  const configPath = path.join(process.cwd(), 'deploy.config.json');
+  const config = loadDeployConfig(configPath);
+  const configMatchesRecord = ethers.keccak256(fs.readFileSync(configPath)) === deployment.configHash;
+
+  const checked = await checkOwnership(provider, deployment, config);
+  return { network: network.name, chainId: network.chainId, configMatchesRecord, ...checked };
+}
+
+/**
+ * Prints the report as a pass/fail list
+ */
+export function printReport(report: OwnershipReport) {
+  console.log(`${colors.cyan}Ownership status for ${report.deployment} on ${report.network} (block ${report.blockNumber})${colors.reset}`);
+  console.log(`Token:    ${report.token}`);
+  console.log(`Governor: ${report.governor}\n`);
+
+  for (const check of report.checks) {
+    if (check.pass) {
+      console.log(`${colors.green}✅ ${check.name}: ${check.actual}${colors.reset}`);
+    } else {
+      console.log(`${colors.red}❌ ${check.name}: expected ${check.expected}, got ${check.actual}${colors.reset}`);
+    }
+  }
+
+  console.log(`\nTransfers: ${report.isTransferPaused ? 'paused (governance must call enableTransfer())' : 'enabled'}`);
+  if (!report.configMatchesRecord) {
+    console.log(`${colors.yellow}Note: deploy.config.json changed since this deployment was recorded, so its checks may not describe this deployment${colors.reset}`);
+  }
+  console.log(report.pass ? `\n${colors.green}✅ Handover verified${colors.reset}` : `\n${colors.red}❌ Handover incomplete${colors.reset}`);
+}
+
+// Main function
+export const main = async () => {
+  const json = setupOutput();
+
+  try {
+    const report = await ownershipStatus();
+    if (!json) {
+      printReport(report);
+    }
+    const failed = report.checks.filter(check => !check.pass).map(check => ({
+      code: 'CHECK_FAILED',
+      message: `${check.name}: expected ${check.expected}, got ${check.actual}`
+    }));
+    finish('status:ownership', { ...report }, report.pass ? undefined : 'checkFailed', failed);
+  } catch (error: any) {
+    console.error(`${colors.red}Error: ${describeError(error)}${colors.reset}`);
+    if (DEBUG) {
+      console.error(error);
+    }
+    fail('status:ownership', error);
+  }
+};
+
+if (require.main === module) {
+  main();
+}
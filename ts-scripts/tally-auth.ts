@@ -1,69 +1,119 @@
-import axios from 'axios';
-import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { getSigner } from './signer';
+import { buildSiweMessage } from './siwe';
+import { createTallyClient, DEFAULT_TALLY_API_URL, TallyClient, TallyNonce } from './tally-client';
 
-dotenv.config();
+dotenv.config({ path: process.env.ENV_FILE });
 
-interface NonceResponse {
-  data: {
-    nonce: {
-      expirationTime: string;
-      issuedAt: string;
-      nonce: string;
-      nonceToken: string;
-    }
-  }
+// Tokens this close to expiry are treated as expired so a run does not fail halfway through
+const EXPIRY_MARGIN_MS = 60_000;
+
+interface CachedToken {
+  token: string;
+  expiresAt: number | null;
+}
+
+type TokenCache = Record<string, CachedToken>;
+
+/**
+ * Location of the JWT cache, overridable with TALLY_TOKEN_CACHE
+ */
+export function tokenCachePath(): string {
+  return process.env.TALLY_TOKEN_CACHE || path.join(os.homedir(), '.tally', 'tokens.json');
 }
 
-interface LoginResponse {
-  data: {
-    login: string; // This is the JWT token
+const cacheKey = (address: string, endpoint: string) => `${address.toLowerCase()}@${endpoint}`;
+
+function readTokenCache(): TokenCache {
+  const file = tokenCachePath();
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    console.warn(`Warning: ignoring unreadable Tally token cache at ${file}`);
+    return {};
   }
 }
 
 /**
- * Get a nonce from the Tally API for SIWE authentication
+ * Writes the cache readable by the current user only
+ */
+function writeTokenCache(cache: TokenCache): void {
+  const file = tokenCachePath();
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(file, `${JSON.stringify(cache, null, 2)}\n`, { mode: 0o600 });
+  fs.chmodSync(file, 0o600);
+}
+
+/**
+ * Reads the `exp` claim of a JWT as a millisecond timestamp, or null when the token has none
  */
-async function getNonce(): Promise<{
-  nonce: string;
-  nonceToken: string;
-  issuedAt: string;
-  expirationTime: string;
-}> {
-  const tallyApiUrl = 'https://api.tally.xyz/query';
-  const apiKey = process.env.TALLY_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error('TALLY_API_KEY environment variable is not set. Please add it to your .env file.');
+export function decodeJwtExpiry(token: string): number | null {
+  const payload = token.split('.')[1];
+  if (!payload) {
+    return null;
   }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+  } catch (error) {
+    return null;
+  }
+}
 
-  const query = `
-    query Nonce {
-      nonce {
-        expirationTime
-        issuedAt
-        nonce
-        nonceToken
-      }
-    }`;
+/**
+ * Whether a token is unexpired, counting tokens without an `exp` claim as valid
+ */
+export function isTokenValid(token: string, now = Date.now()): boolean {
+  const expiresAt = decodeJwtExpiry(token);
+  return expiresAt === null || expiresAt - EXPIRY_MARGIN_MS > now;
+}
 
-  try {
-    const response = await axios.post<NonceResponse>(
-      tallyApiUrl,
-      { query },
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': apiKey
-        }
-      }
-    );
-
-    if (!response.data.data || !response.data.data.nonce) {
-      throw new Error('Failed to get nonce from Tally API');
-    }
+/**
+ * Returns the cached token for a signer and endpoint if it has not expired
+ */
+export function getCachedToken(address: string, endpoint: string): string | undefined {
+  const entry = readTokenCache()[cacheKey(address, endpoint)];
+  return entry && isTokenValid(entry.token) ? entry.token : undefined;
+}
+
+/**
+ * Stores a token for a signer and endpoint
+ */
+export function cacheToken(address: string, endpoint: string, token: string): void {
+  const cache = readTokenCache();
+  cache[cacheKey(address, endpoint)] = { token, expiresAt: decodeJwtExpiry(token) };
+  writeTokenCache(cache);
+}
+
+/**
+ * Removes the token for a signer and endpoint, or every token when no address is given.
+ * Returns the number of entries removed.
+ */
+export function clearCachedTokens(address?: string, endpoint?: string): number {
+  const cache = readTokenCache();
+  const keys = address && endpoint ? [cacheKey(address, endpoint)].filter(key => key in cache) : Object.keys(cache);
+  for (const key of keys) {
+    delete cache[key];
+  }
+  if (keys.length > 0) {
+    writeTokenCache(cache);
+  }
+  return keys.length;
+}
 
-    return response.data.data.nonce;
+/**
+ * Get a nonce from the Tally API for SIWE authentication
+ */
+async function getNonce(client: TallyClient): Promise<TallyNonce> {
+  try {
+    return await client.nonce();
   } catch (error) {
     console.error('Error getting nonce from Tally API:', error);
     throw error;
@@ -71,101 +121,62 @@ async function getNonce(): Promise<{
 }
 
 /**
- * Sign a message with the user's private key for SIWE authentication
+ * The parts of the SIWE message that identify the site being signed in to
  */
-async function signMessage(message: string): Promise<string> {
-  const privateKey = process.env.PRIVATE_KEY;
-  
-  if (!privateKey) {
-    throw new Error('PRIVATE_KEY environment variable is not set. Please add it to your .env file.');
-  }
-
-  const wallet = new ethers.Wallet(privateKey);
-  const signature = await wallet.signMessage(message);
-  
-  return signature;
+export interface SiweOptions {
+  domain: string;
+  uri: string;
+  chainId: number;
+  statement?: string;
+  requestId?: string;
+  resources?: string[];
 }
 
 /**
- * Create a SIWE message from the nonce and other data
+ * The values Tally's web app signs in with, overridable with TALLY_SIWE_DOMAIN, TALLY_SIWE_URI and TALLY_SIWE_CHAIN_ID
  */
-function createSiweMessage(nonce: string, issuedAt: string, expirationTime: string, address: string): string {
-  return `www.tally.xyz wants you to sign in with your Ethereum account:
-${address}
-
-Sign in with Ethereum to Tally and agree to the Terms of Service at terms.tally.xyz
+export function defaultSiweOptions(): SiweOptions {
+  return {
+    domain: process.env.TALLY_SIWE_DOMAIN || 'www.tally.xyz',
+    uri: process.env.TALLY_SIWE_URI || 'https://www.tally.xyz/',
+    chainId: Number(process.env.TALLY_SIWE_CHAIN_ID || 1),
+    statement: 'Sign in with Ethereum to Tally and agree to the Terms of Service at terms.tally.xyz'
+  };
+}
 
-URI: https://www.tally.xyz/
-Version: 1
-Chain ID: 1
-Nonce: ${nonce}
-Issued At: ${issuedAt}
-Expiration Time: ${expirationTime}`;
+/**
+ * Create a SIWE message from the nonce response, rejecting it if it is malformed or already expired
+ */
+export function createSiweMessage(nonce: TallyNonce, address: string, options: SiweOptions = defaultSiweOptions()): string {
+  return buildSiweMessage({
+    ...options,
+    address: ethers.getAddress(address),
+    version: '1',
+    nonce: nonce.nonce,
+    issuedAt: nonce.issuedAt,
+    expirationTime: nonce.expirationTime
+  });
 }
 
 /**
  * Login to Tally with SIWE
  */
-async function loginWithSiwe(): Promise<string> {
+async function loginWithSiwe(client: TallyClient, options?: SiweOptions): Promise<string> {
   try {
-    const privateKey = process.env.PRIVATE_KEY;
-    
-    if (!privateKey) {
-      throw new Error('PRIVATE_KEY environment variable is not set. Please add it to your .env file.');
-    }
-
-    // Get wallet address from private key
-    const wallet = new ethers.Wallet(privateKey);
-    const address = wallet.address;
+    const signer = await getSigner();
+    const address = await signer.getAddress();
 
     // Get nonce from Tally API
-    const { nonce, nonceToken, issuedAt, expirationTime } = await getNonce();
-    
-    // Create SIWE message
-    const message = createSiweMessage(nonce, issuedAt, expirationTime, address);
-    
-    // Sign the message
-    const signature = await signMessage(message);
-    
-    // Send login request
-    const tallyApiUrl = 'https://api.tally.xyz/query';
-    const apiKey = process.env.TALLY_API_KEY;
-    
-    if (!apiKey) {
-      throw new Error('TALLY_API_KEY environment variable is not set. Please add it to your .env file.');
-    }
+    const nonce = await getNonce(client);
 
-    const query = `
-      mutation Login($message: String!, $signature: String!, $signInType: SignInType!) {
-        login(message: $message, signature: $signature, signInType: $signInType)
-      }`;
-
-    const variables = {
-      message,
-      signature,
-      signInType: "evm"
-    };
-
-    const response = await axios.post<LoginResponse>(
-      tallyApiUrl,
-      {
-        query,
-        variables
-      },
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': apiKey,
-          'nonce': nonceToken
-        }
-      }
-    );
-
-    if (!response.data.data || !response.data.data.login) {
-      throw new Error('Failed to login to Tally API');
-    }
+    // Create and validate the SIWE message before anything is signed
+    const message = createSiweMessage(nonce, address, options);
+
+    // Sign the message
+    const signature = await signer.signMessage(message);
 
-    return response.data.data.login; // This is the JWT token
+    // Send login request, the response is the JWT token
+    return await client.login(message, signature, nonce.nonceToken);
   } catch (error) {
     console.error('Error logging in to Tally:', error);
     throw error;
@@ -174,23 +185,32 @@ async function loginWithSiwe(): Promise<string> {
 
 /**
  * Get Tally API token using SIWE authentication
- * This function will be used by other scripts to get the token
+ * Reuses TALLY_API_TOKEN or the on-disk cache while the token is unexpired, and signs in again otherwise
+ * or when `refresh` is set
  */
-export async function getTallyApiToken(): Promise<string> {
-  // First, check if we already have a token in the environment
+export async function getTallyApiToken(options: { refresh?: boolean; siwe?: SiweOptions } = {}): Promise<string> {
   const existingToken = process.env.TALLY_API_TOKEN;
-  
-  if (existingToken) {
-    return existingToken;
+  if (existingToken && !options.refresh) {
+    if (isTokenValid(existingToken)) {
+      return existingToken;
+    }
+    console.warn('Warning: TALLY_API_TOKEN has expired, signing in again');
+  }
+
+  const client = createTallyClient();
+  const address = await (await getSigner()).getAddress();
+
+  if (!options.refresh) {
+    const cached = getCachedToken(address, client.endpoint);
+    if (cached) {
+      return cached;
+    }
   }
-  
-  // Otherwise, get a new token using SIWE
+
   try {
-    const token = await loginWithSiwe();
-    
-    // Set the token in the environment for future use
+    const token = await loginWithSiwe(client, options.siwe);
+    cacheToken(address, client.endpoint, token);
     process.env.TALLY_API_TOKEN = token;
-    
     return token;
   } catch (error) {
     console.error('Failed to get Tally API token:', error);
@@ -198,18 +218,48 @@ export async function getTallyApiToken(): Promise<string> {
   }
 }
 
+/**
+ * Builds a TallyClient signed in with SIWE that signs in again if Tally rejects the token
+ */
+export async function createAuthenticatedTallyClient(): Promise<TallyClient> {
+  return createTallyClient(await getTallyApiToken(), () => getTallyApiToken({ refresh: true }));
+}
+
+/**
+ * Clears the cached token of the current signer, or every cached token with --all
+ */
+export async function logout(argv: string[] = process.argv) {
+  delete process.env.TALLY_API_TOKEN;
+  if (argv.includes('--all')) {
+    const removed = clearCachedTokens();
+    console.log(`Removed ${removed} cached Tally token(s) from ${tokenCachePath()}`);
+    return;
+  }
+
+  const address = await (await getSigner()).getAddress();
+  const endpoint = process.env.TALLY_API_URL || DEFAULT_TALLY_API_URL;
+  const removed = clearCachedTokens(address, endpoint);
+  console.log(
+    removed > 0
+      ? `Logged ${address} out of ${endpoint}`
+      : `No cached Tally token for ${address} at ${endpoint}`
+  );
+}
+
 // Export the function so it can be used in other scripts
 export default getTallyApiToken;
 
-// If this file is run directly, just get the token and print it
+// If this file is run directly, get the token and print it, or clear it with `logout`
 if (require.main === module) {
-  getTallyApiToken()
-    .then(token => {
+  const run = process.argv[2] === 'logout'
+    ? logout(process.argv)
+    : getTallyApiToken().then(token => {
       console.log('Successfully obtained Tally API token');
       console.log('Token:', token);
-    })
-    .catch(error => {
-      console.error('Error:', error);
-      process.exit(1);
     });
-} 
\ No newline at end of file
+
+  run.catch(error => {
+    console.error('Error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,529 @@
+import axios, { AxiosError } from 'axios';
+
+export const DEFAULT_TALLY_API_URL = 'https://api.tally.xyz/query';
+
+/**
+ * Classes of failure the Tally API can report
+ */
+export type TallyErrorKind =
+  | 'not-found'
+  | 'already-exists'
+  | 'auth-expired'
+  | 'rate-limited'
+  | 'validation'
+  | 'unknown';
+
+export interface GraphQLError {
+  message: string;
+  path?: (string | number)[];
+  extensions?: Record<string, any>;
+}
+
+interface GraphQLResponse<T> {
+  data?: T | null;
+  errors?: GraphQLError[];
+}
+
+export interface TallyNonce {
+  nonce: string;
+  nonceToken: string;
+  issuedAt: string;
+  expirationTime: string;
+}
+
+export interface TallyOrganizationSummary {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface TallyGovernor {
+  id: string;
+  name: string;
+  organization: TallyOrganizationSummary | null;
+}
+
+export interface TallyOrganization extends TallyOrganizationSummary {
+  governors: { id: string }[];
+}
+
+export interface CreateOrganizationInput {
+  governors: {
+    id: string;
+    type: string;
+    startBlock?: number;
+    token?: {
+      id: string;
+      startBlock?: number;
+    };
+  }[];
+  name: string;
+  slug?: string;
+  description?: string;
+  metadata?: {
+    icon?: string;
+    banner?: string;
+    socials?: TallySocials;
+    contact?: { email?: string };
+  };
+}
+
+export interface TallySocials {
+  website?: string | null;
+  discord?: string | null;
+  twitter?: string | null;
+  github?: string | null;
+  others?: { label: string; value: string }[] | null;
+}
+
+export interface TallyOrganizationMetadata {
+  description?: string | null;
+  icon?: string | null;
+  banner?: string | null;
+  socials?: TallySocials | null;
+  contact?: { email?: string | null } | null;
+}
+
+export interface TallyOrganizationDetails extends TallyOrganization {
+  metadata: TallyOrganizationMetadata | null;
+}
+
+export interface UpdateOrganizationInput {
+  id: string;
+  name?: string;
+  slug?: string;
+  metadata?: {
+    description?: string;
+    icon?: string;
+    banner?: string;
+    socials?: TallySocials;
+    contact?: { email?: string };
+  };
+}
+
+/**
+ * A file sent as a GraphQL multipart upload in place of `variable`
+ */
+interface FileUpload {
+  variable: string;
+  name: string;
+  data: Buffer;
+}
+
+export interface CreatedOrganization {
+  id: string;
+  slug: string;
+}
+
+export interface TallyClientOptions {
+  apiKey: string;
+  endpoint?: string;
+  token?: string;
+  /** Called once when an authenticated request fails with `auth-expired`, returning a fresh JWT to retry with */
+  refreshToken?: () => Promise<string>;
+  debug?: boolean;
+}
+
+/**
+ * Error raised for any failed Tally request, classified by `kind`
+ */
+export class TallyApiError extends Error {
+  readonly kind: TallyErrorKind;
+  readonly status?: number;
+  readonly errors: GraphQLError[];
+
+  constructor(kind: TallyErrorKind, message: string, status?: number, errors: GraphQLError[] = []) {
+    super(message);
+    this.name = 'TallyApiError';
+    this.kind = kind;
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+/**
+ * Maps an HTTP status and GraphQL error list onto a TallyErrorKind
+ */
+export function classifyTallyError(status: number | undefined, errors: GraphQLError[]): TallyErrorKind {
+  const messages = errors.map(error => error.message.toLowerCase()).join('\n');
+  const codes = errors.map(error => String(error.extensions?.code ?? '').toUpperCase());
+
+  if (status === 429 || messages.includes('rate limit') || messages.includes('too many requests')) {
+    return 'rate-limited';
+  }
+  if (
+    status === 401 ||
+    codes.includes('UNAUTHENTICATED') ||
+    messages.includes('unauthorized') ||
+    messages.includes('token is expired') ||
+    messages.includes('invalid token')
+  ) {
+    return 'auth-expired';
+  }
+  if (messages.includes('already exists') || codes.includes('ALREADY_EXISTS')) {
+    return 'already-exists';
+  }
+  if (messages.includes('not found') || codes.includes('NOT_FOUND')) {
+    return 'not-found';
+  }
+  if (
+    status === 400 ||
+    status === 422 ||
+    codes.includes('BAD_USER_INPUT') ||
+    codes.includes('GRAPHQL_VALIDATION_FAILED')
+  ) {
+    return 'validation';
+  }
+  return 'unknown';
+}
+
+const NONCE_QUERY = `
+  query Nonce {
+    nonce {
+      expirationTime
+      issuedAt
+      nonce
+      nonceToken
+    }
+  }`;
+
+const LOGIN_MUTATION = `
+  mutation Login($message: String!, $signature: String!, $signInType: SignInType!) {
+    login(message: $message, signature: $signature, signInType: $signInType)
+  }`;
+
+const GOVERNOR_QUERY = `
+  query FindGovernor($id: ID!) {
+    governor(id: $id) {
+      id
+      name
+      organization {
+        id
+        name
+        slug
+      }
+    }
+  }`;
+
+const ORGANIZATIONS_QUERY = `
+  query SearchOrganizations($governorAddress: String!) {
+    organizations(where: {governorAddresses: [$governorAddress]}, first: 1) {
+      id
+      name
+      slug
+      governors {
+        id
+      }
+    }
+  }`;
+
+const ORGANIZATION_QUERY = `
+  query Organization($id: IntID!) {
+    organization(input: {id: $id}) {
+      id
+      name
+      slug
+      governors {
+        id
+      }
+      metadata {
+        description
+        icon
+        banner
+        socials {
+          website
+          discord
+          twitter
+          github
+        }
+        contact {
+          email
+        }
+      }
+    }
+  }`;
+
+const UPDATE_ORGANIZATION_MUTATION = `
+  mutation UpdateOrganization($input: UpdateOrganizationInput!) {
+    updateOrganization(input: $input) {
+      id
+      slug
+    }
+  }`;
+
+const UPLOAD_MUTATION = `
+  mutation Upload($file: Upload!) {
+    upload(file: {file: $file}) {
+      url
+    }
+  }`;
+
+const CREATE_ORGANIZATION_MUTATION = `
+  mutation CreateDAO($input: CreateOrganizationInput!) {
+    createOrganization(input: $input) {
+      id
+      slug
+    }
+  }`;
+
+/**
+ * Typed client for the Tally GraphQL API
+ */
+export class TallyClient {
+  readonly endpoint: string;
+  private readonly apiKey: string;
+  private readonly debug: boolean;
+  private readonly refreshToken?: () => Promise<string>;
+  private token?: string;
+
+  constructor(options: TallyClientOptions) {
+    this.endpoint = options.endpoint || DEFAULT_TALLY_API_URL;
+    this.apiKey = options.apiKey;
+    this.token = options.token;
+    this.refreshToken = options.refreshToken;
+    this.debug = options.debug ?? false;
+  }
+
+  /**
+   * Sets the SIWE JWT sent as the Authorization bearer token
+   */
+  setToken(token: string | undefined): void {
+    this.token = token;
+  }
+
+  /**
+   * Requests a SIWE nonce
+   */
+  async nonce(): Promise<TallyNonce> {
+    const data = await this.request<{ nonce: TallyNonce | null }>(NONCE_QUERY);
+    if (!data.nonce) {
+      throw new TallyApiError('unknown', 'Failed to get nonce from Tally API');
+    }
+    return data.nonce;
+  }
+
+  /**
+   * Exchanges a signed SIWE message for a JWT
+   */
+  async login(message: string, signature: string, nonceToken: string): Promise<string> {
+    const data = await this.request<{ login: string | null }>(
+      LOGIN_MUTATION,
+      { message, signature, signInType: 'evm' },
+      { nonce: nonceToken }
+    );
+    if (!data.login) {
+      throw new TallyApiError('unknown', 'Failed to login to Tally API');
+    }
+    return data.login;
+  }
+
+  /**
+   * Looks up a governor by its `eip155:<chainId>:<address>` id, returning null when Tally does not know it
+   */
+  async governor(id: string): Promise<TallyGovernor | null> {
+    try {
+      const data = await this.request<{ governor: TallyGovernor | null }>(GOVERNOR_QUERY, { id });
+      return data.governor;
+    } catch (error) {
+      if (error instanceof TallyApiError && error.kind === 'not-found') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the organizations that contain the given governor address
+   */
+  async organizations(governorAddress: string): Promise<TallyOrganization[]> {
+    const data = await this.request<{ organizations: TallyOrganization[] | null }>(ORGANIZATIONS_QUERY, {
+      governorAddress: governorAddress.toLowerCase()
+    });
+    return data.organizations || [];
+  }
+
+  /**
+   * Fetches an organization with its metadata, returning null when Tally does not know it
+   */
+  async organization(id: string): Promise<TallyOrganizationDetails | null> {
+    try {
+      const data = await this.request<{ organization: TallyOrganizationDetails | null }>(ORGANIZATION_QUERY, { id });
+      return data.organization;
+    } catch (error) {
+      if (error instanceof TallyApiError && error.kind === 'not-found') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Updates the name, slug or metadata of an existing organization
+   */
+  async updateOrganization(input: UpdateOrganizationInput): Promise<CreatedOrganization> {
+    const data = await this.request<{ updateOrganization: CreatedOrganization | null }>(
+      UPDATE_ORGANIZATION_MUTATION,
+      { input }
+    );
+    if (!data.updateOrganization) {
+      throw new TallyApiError('unknown', 'Tally API returned no organization');
+    }
+    return data.updateOrganization;
+  }
+
+  /**
+   * Uploads an image and returns the URL Tally serves it from
+   */
+  async uploadImage(name: string, data: Buffer): Promise<string> {
+    const result = await this.request<{ upload: { url: string } | null }>(UPLOAD_MUTATION, { file: null }, {}, { variable: 'file', name, data });
+    if (!result.upload?.url) {
+      throw new TallyApiError('unknown', `Tally API returned no URL for ${name}`);
+    }
+    return result.upload.url;
+  }
+
+  /**
+   * Creates a new organization for one or more governors
+   */
+  async createOrganization(input: CreateOrganizationInput): Promise<CreatedOrganization> {
+    const data = await this.request<{ createOrganization: CreatedOrganization | null }>(
+      CREATE_ORGANIZATION_MUTATION,
+      { input }
+    );
+    if (!data.createOrganization) {
+      throw new TallyApiError('unknown', 'Tally API returned no organization');
+    }
+    return data.createOrganization;
+  }
+
+  /**
+   * Sends a request, refreshing the JWT and retrying once if Tally reports it expired
+   */
+  private async request<T>(
+    query: string,
+    variables?: Record<string, unknown>,
+    extraHeaders: Record<string, string> = {},
+    upload?: FileUpload
+  ): Promise<T> {
+    try {
+      return await this.send<T>(query, variables, extraHeaders, upload);
+    } catch (error) {
+      if (!(error instanceof TallyApiError) || error.kind !== 'auth-expired' || !this.token || !this.refreshToken) {
+        throw error;
+      }
+      if (this.debug) {
+        console.log('Tally token expired, signing in again');
+      }
+      this.token = await this.refreshToken();
+      return this.send<T>(query, variables, extraHeaders, upload);
+    }
+  }
+
+  private async send<T>(
+    query: string,
+    variables?: Record<string, unknown>,
+    extraHeaders: Record<string, string> = {},
+    upload?: FileUpload
+  ): Promise<T> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'api-key': this.apiKey,
+      ...extraHeaders
+    };
+
+    // Files follow the GraphQL multipart request spec, with axios setting the multipart content type
+    let payload: object = { query, variables };
+    if (upload) {
+      const form = new FormData();
+      form.append('operations', JSON.stringify({ query, variables }));
+      form.append('map', JSON.stringify({ 0: [`variables.${upload.variable}`] }));
+      form.append('0', new Blob([new Uint8Array(upload.data)]), upload.name);
+      payload = form;
+      delete headers['Content-Type'];
+      headers['apollo-require-preflight'] = 'true';
+    }
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+
+    if (this.debug) {
+      console.log('Making API request to Tally:');
+      console.log('URL:', this.endpoint);
+      console.log('Query:', query.trim());
+      console.log('Variables:', JSON.stringify(variables ?? {}, null, 2));
+    }
+
+    let body: GraphQLResponse<T>;
+    let status: number;
+    try {
+      const response = await axios.post<GraphQLResponse<T>>(this.endpoint, payload, { headers });
+      body = response.data;
+      status = response.status;
+    } catch (error) {
+      const axiosError = error as AxiosError<GraphQLResponse<T>>;
+      if (!axiosError.response) {
+        throw error;
+      }
+      const errors = axiosError.response.data?.errors || [];
+      const message = errors.length > 0
+        ? errors.map(e => e.message).join('; ')
+        : `HTTP ${axiosError.response.status}`;
+      throw new TallyApiError(
+        classifyTallyError(axiosError.response.status, errors),
+        `Tally API Error: ${message}`,
+        axiosError.response.status,
+        errors
+      );
+    }
+
+    if (body.errors && body.errors.length > 0) {
+      if (this.debug) {
+        console.error('API Response Errors:', JSON.stringify(body.errors, null, 2));
+      }
+      throw new TallyApiError(
+        classifyTallyError(status, body.errors),
+        `Tally API Error: ${body.errors.map(e => e.message).join('; ')}`,
+        status,
+        body.errors
+      );
+    }
+
+    if (!body.data) {
+      throw new TallyApiError('unknown', 'Tally API returned an empty response', status);
+    }
+
+    return body.data;
+  }
+}
+
+/**
+ * Builds a TallyClient from TALLY_API_KEY and the optional TALLY_API_URL override
+ */
+export function createTallyClient(token?: string, refreshToken?: () => Promise<string>): TallyClient {
+  const apiKey = process.env.TALLY_API_KEY;
+  if (!apiKey) {
+    throw new Error('TALLY_API_KEY environment variable is not set. Please add it to your .env file.');
+  }
+
+  return new TallyClient({
+    apiKey,
+    endpoint: process.env.TALLY_API_URL,
+    token,
+    refreshToken,
+    debug: process.env.DEBUG === 'true'
+  });
+}
+
+/**
+ * Builds the Tally governor id for a chain and address
+ */
+export function tallyGovernorId(chainId: string | number, governorAddress: string): string {
+  return `eip155:${chainId}:${governorAddress}`;
+}
+
+/**
+ * Builds the Tally token id for a chain and address
+ */
+export function tallyTokenId(chainId: string | number, tokenAddress: string): string {
+  return `eip155:${chainId}/erc20:${tokenAddress}`;
+}
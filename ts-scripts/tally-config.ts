@@ -0,0 +1,155 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JsonSchema, validateSchema } from './json-schema';
+import { TallyClient } from './tally-client';
+
+// Check if debug mode is enabled
+const DEBUG = process.env.DEBUG === 'true';
+
+export interface TallySocialLinks {
+  website?: string;
+  discord?: string;
+  x?: string;
+  github?: string;
+}
+
+/**
+ * A governor deployed outside the active deployment that belongs to the same organization
+ */
+export interface ExtraGovernor {
+  chainId: number;
+  governor: string;
+  governorStartBlock: number;
+  token: string;
+  tokenStartBlock: number;
+}
+
+/**
+ * The organization details published to Tally. `icon` and `banner` are URLs or absolute paths of local images.
+ */
+export interface TallyConfig {
+  name: string;
+  description: string;
+  slug?: string;
+  icon?: string;
+  banner?: string;
+  socials: TallySocialLinks;
+  contactEmail?: string;
+  governors: ExtraGovernor[];
+}
+
+const TALLY_CONFIG_PATH = path.join(process.cwd(), 'tally.config.json');
+const DEPLOY_CONFIG_PATH = path.join(process.cwd(), 'deploy.config.json');
+const SCHEMA_PATH = path.join(__dirname, '..', 'tally.config.schema.json');
+const UPLOADS_PATH = path.join(process.cwd(), 'tally.uploads.json');
+
+const isUrl = (value: string) => /^(https?|ipfs):\/\//.test(value);
+
+/**
+ * Checks a parsed tally.config.json against tally.config.schema.json and that its images exist,
+ * throwing one error that lists every problem
+ */
+export function validateTallyConfig(raw: unknown, configDir = process.cwd()): void {
+  const schema: JsonSchema = JSON.parse(fs.readFileSync(SCHEMA_PATH, 'utf8'));
+  const errors = validateSchema(raw, schema);
+
+  if (errors.length === 0) {
+    const config = raw as Record<string, any>;
+    for (const key of ['icon', 'banner']) {
+      const image = config[key];
+      if (image && !isUrl(image) && !fs.existsSync(path.resolve(configDir, image))) {
+        errors.push({ path: key, message: `image file ${image} not found` });
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid tally.config.json:\n  - ${errors.map(e => `${e.path} ${e.message}`).join('\n  - ')}`);
+  }
+}
+
+/**
+ * Reads and validates tally.config.json, falling back to a name and description derived from deploy.config.json
+ */
+export function loadTallyConfig(tallyConfigPath = TALLY_CONFIG_PATH, deployConfigPath = DEPLOY_CONFIG_PATH): TallyConfig {
+  if (fs.existsSync(tallyConfigPath)) {
+    if (DEBUG) {
+      console.log('Using tally.config.json for DAO configuration');
+    }
+    const configDir = path.dirname(tallyConfigPath);
+    const tallyConfig = JSON.parse(fs.readFileSync(tallyConfigPath, 'utf8'));
+    validateTallyConfig(tallyConfig, configDir);
+
+    const image = (value?: string) => (value && !isUrl(value) ? path.resolve(configDir, value) : value);
+    return {
+      name: tallyConfig.daoName,
+      description: tallyConfig.description,
+      slug: tallyConfig.slug,
+      icon: image(tallyConfig.icon),
+      banner: image(tallyConfig.banner),
+      socials: tallyConfig.socials || {},
+      contactEmail: tallyConfig.contactEmail,
+      governors: tallyConfig.governors || []
+    };
+  }
+
+  if (DEBUG) {
+    console.log('tally.config.json not found, falling back to deploy.config.json');
+  }
+  if (!fs.existsSync(deployConfigPath)) {
+    throw new Error('Neither tally.config.json nor deploy.config.json file found');
+  }
+
+  const config = JSON.parse(fs.readFileSync(deployConfigPath, 'utf8'));
+
+  // Use the governor name from config, or fallback to token name if available
+  const name = config.governor?._name || (config.token?._name ? `${config.token._name} DAO` : 'Ungovernable DAO');
+
+  // Create a description based on the token info if available
+  const tokenInfo = config.token
+    ? `Token: ${config.token._name || 'Unknown'} (${config.token._symbol || 'Unknown'})`
+    : '';
+
+  return {
+    name,
+    description: `A DAO created with Ungovernable Governor. ${tokenInfo}`.trim(),
+    socials: {},
+    governors: []
+  };
+}
+
+type UploadCache = Record<string, { file: string; url: string }>;
+
+const readUploads = (): UploadCache => (fs.existsSync(UPLOADS_PATH) ? JSON.parse(fs.readFileSync(UPLOADS_PATH, 'utf8')) : {});
+
+const imageHash = (file: string) => crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+
+/**
+ * Returns the URL of an image without uploading: the value itself for URLs, the recorded upload for
+ * local files uploaded before, or null for local files that still need uploading
+ */
+export function cachedImageUrl(image: string): string | null {
+  if (isUrl(image)) {
+    return image;
+  }
+  return readUploads()[imageHash(image)]?.url ?? null;
+}
+
+/**
+ * Returns the URL of an image, uploading local files to Tally once and recording the result in
+ * tally.uploads.json by content hash so unchanged images are not uploaded again
+ */
+export async function resolveImageUrl(client: TallyClient, image: string): Promise<string> {
+  const cached = cachedImageUrl(image);
+  if (cached) {
+    return cached;
+  }
+
+  const url = await client.uploadImage(path.basename(image), fs.readFileSync(image));
+  const uploads = readUploads();
+  uploads[imageHash(image)] = { file: path.relative(process.cwd(), image), url };
+  fs.writeFileSync(UPLOADS_PATH, `${JSON.stringify(uploads, null, 2)}\n`);
+  console.log(`Uploaded ${path.relative(process.cwd(), image)} to ${url}`);
+  return url;
+}
@@ -0,0 +1,200 @@
+#!/usr/bin/env ts-node
+import * as path from 'path';
+import dotenv from 'dotenv';
+import { resolveDeployment } from './deployments';
+import { resolveNetwork } from './networks';
+import { fail, finish, setupOutput } from './output';
+import { confirm } from './prompt';
+import { createAuthenticatedTallyClient } from './tally-auth';
+import {
+  TallyClient,
+  TallyOrganizationDetails,
+  TallySocials,
+  tallyGovernorId,
+  UpdateOrganizationInput
+} from './tally-client';
+import { cachedImageUrl, loadTallyConfig, resolveImageUrl, TallyConfig, TallySocialLinks } from './tally-config';
+
+// Load environment variables
+dotenv.config({ path: process.env.ENV_FILE });
+
+// Check if debug mode is enabled
+const DEBUG = process.env.DEBUG === 'true';
+
+// Define ANSI color codes for console output
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+};
+
+// tally.config.json social keys and the Tally field each one maps to
+const SOCIAL_FIELDS: [keyof TallySocialLinks, keyof Omit<TallySocials, 'others'>][] = [
+  ['website', 'website'],
+  ['discord', 'discord'],
+  ['x', 'twitter'],
+  ['github', 'github']
+];
+
+export interface FieldChange {
+  field: string;
+  current: string;
+  desired: string;
+}
+
+export interface OrganizationUpdatePlan {
+  changes: FieldChange[];
+  input: UpdateOrganizationInput | null;
+}
+
+/**
+ * Diffs tally.config.json against the organization on Tally. Fields missing from the config are left alone,
+ * so a config that matches Tally produces no changes.
+ */
+export function planOrganizationUpdate(config: TallyConfig, org: TallyOrganizationDetails): OrganizationUpdatePlan {
+  const changes: FieldChange[] = [];
+  const diff = (field: string, current: string | null | undefined, desired: string | undefined) => {
+    if (desired !== undefined && (current ?? '') !== desired) {
+      changes.push({ field, current: current ?? '', desired });
+      return true;
+    }
+    return false;
+  };
+
+  const input: UpdateOrganizationInput = { id: org.id };
+  const metadata = org.metadata || {};
+
+  if (diff('name', org.name, config.name)) input.name = config.name;
+  if (diff('slug', org.slug, config.slug)) input.slug = config.slug;
+  if (diff('description', metadata.description, config.description)) {
+    input.metadata = { ...input.metadata, description: config.description };
+  }
+  if (diff('icon', metadata.icon, config.icon)) {
+    input.metadata = { ...input.metadata, icon: config.icon };
+  }
+  if (diff('banner', metadata.banner, config.banner)) {
+    input.metadata = { ...input.metadata, banner: config.banner };
+  }
+  if (diff('contactEmail', metadata.contact?.email, config.contactEmail)) {
+    input.metadata = { ...input.metadata, contact: { email: config.contactEmail } };
+  }
+
+  // Tally replaces the socials object as a whole, so send the current links with the changed ones
+  const socials: TallySocials = { ...(metadata.socials || {}) };
+  let socialsChanged = false;
+  for (const [key, tallyKey] of SOCIAL_FIELDS) {
+    if (diff(`socials.${key}`, metadata.socials?.[tallyKey], config.socials[key])) {
+      socials[tallyKey] = config.socials[key];
+      socialsChanged = true;
+    }
+  }
+  if (socialsChanged) {
+    input.metadata = { ...input.metadata, socials };
+  }
+
+  return { changes, input: changes.length > 0 ? input : null };
+}
+
+/**
+ * Finds the organization of a governor through the governor query, then the organizations search
+ */
+export async function findOrganization(
+  client: TallyClient,
+  chainId: number,
+  governorAddress: string
+): Promise<TallyOrganizationDetails | null> {
+  const governor = await client.governor(tallyGovernorId(chainId, governorAddress));
+  const organizationId = governor?.organization?.id ?? (await client.organizations(governorAddress))[0]?.id;
+  return organizationId ? client.organization(organizationId) : null;
+}
+
+/**
+ * Prints the planned changes as current -> desired
+ */
+function printPlan(changes: FieldChange[]) {
+  const width = Math.max(...changes.map(change => change.field.length));
+  for (const { field, current, desired } of changes) {
+    console.log(`  ${field.padEnd(width)}  ${colors.red}${current || '(empty)'}${colors.reset} -> ${colors.green}${desired || '(empty)'}${colors.reset}`);
+  }
+}
+
+// Main function
+export const main = async () => {
+  setupOutput();
+  const argv = process.argv;
+
+  try {
+    const network = resolveNetwork();
+    if (!network.tally) {
+      throw new Error(`Tally does not support network "${network.name}" (set "tally": true in networks.config.json if it does)`);
+    }
+    const deployment = resolveDeployment(network.chainId);
+    const governorAddress = deployment.contracts.governor.address;
+    const config = loadTallyConfig();
+
+    const client = await createAuthenticatedTallyClient();
+    const org = await findOrganization(client, network.chainId, governorAddress);
+    if (!org) {
+      throw new Error(`No Tally organization found for governor ${governorAddress}. Run pnpm publish:tally first.`);
+    }
+    if (DEBUG) {
+      console.log('Organization on Tally:', JSON.stringify(org, null, 2));
+    }
+
+    console.log(`Organization: ${org.name} (https://www.tally.xyz/gov/${org.slug})`);
+
+    // Local images are compared by the URL of their earlier upload, and only uploaded when applying
+    const dryRun = argv.includes('--dry-run');
+    const imageUrl = async (image: string) =>
+      dryRun ? cachedImageUrl(image) ?? `(upload of ${path.relative(process.cwd(), image)})` : resolveImageUrl(client, image);
+    if (config.icon) {
+      config.icon = await imageUrl(config.icon);
+    }
+    if (config.banner) {
+      config.banner = await imageUrl(config.banner);
+    }
+    const plan = planOrganizationUpdate(config, org);
+    if (!plan.input) {
+      console.log(`${colors.green}✅ Tally is already in sync with tally.config.json${colors.reset}`);
+      finish('tally:sync', { organization: org.id, changes: [] });
+    }
+
+    console.log(`\n${colors.cyan}Planned changes:${colors.reset}`);
+    printPlan(plan.changes);
+
+    if (dryRun) {
+      console.log('\nDry run, not updating Tally.');
+      finish('tally:sync', { organization: org.id, changes: plan.changes, dryRun: true });
+    }
+    if (!(await confirm(`\nApply ${plan.changes.length} change(s) to Tally?`, argv))) {
+      console.log('Aborted.');
+      finish('tally:sync', { organization: org.id, changes: plan.changes, aborted: true });
+    }
+
+    const updated = await client.updateOrganization(plan.input);
+    const after = await client.organization(updated.id);
+    const remaining = after ? planOrganizationUpdate(config, after).changes : plan.changes;
+    if (remaining.length > 0) {
+      console.log(`${colors.yellow}Warning: Tally did not apply every change:${colors.reset}`);
+      printPlan(remaining);
+      finish('tally:sync', { organization: org.id, changes: plan.changes, remaining }, 'checkFailed', [
+        { code: 'TALLY_SYNC_INCOMPLETE', message: `Tally did not apply ${remaining.map(change => change.field).join(', ')}` }
+      ]);
+    }
+    console.log(`\n${colors.green}✅ Tally organization updated: https://www.tally.xyz/gov/${updated.slug}${colors.reset}`);
+    finish('tally:sync', { organization: org.id, changes: plan.changes, url: `https://www.tally.xyz/gov/${updated.slug}` });
+  } catch (error: any) {
+    console.error(`${colors.red}Error: ${error.message}${colors.reset}`);
+    if (DEBUG) {
+      console.error(error);
+    }
+    fail('tally:sync', error);
+  }
+};
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,273 @@
+#!/usr/bin/env ts-node
+import * as path from 'path';
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { getFlag, getPositionals } from './args';
+import { loadArtifact } from './artifacts';
+import { readCsv } from './csv';
+import { resolveDeployment } from './deployments';
+import { resolveNetwork } from './networks';
+import { fail, finish, setupOutput } from './output';
+import { confirm } from './prompt';
+import { getSigner } from './signer';
+import { describeError } from './tx';
+
+// Load environment variables
+dotenv.config({ path: process.env.ENV_FILE });
+
+// Check if debug mode is enabled
+const DEBUG = process.env.DEBUG === 'true';
+
+// Define ANSI color codes for console output
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+};
+
+const VALUE_FLAGS = ['--network', '--deployment', '--csv'];
+
+/**
+ * One token admin call, with the event it must emit
+ */
+export interface PlannedCall {
+  label: string;
+  method: 'setBlacklist' | 'setWhitelist' | 'enableTransfer' | 'mint' | 'burn';
+  args: unknown[];
+  event: { name: string; matches: (args: ethers.Result) => boolean };
+}
+
+/**
+ * Checksums an address, failing with the CSV row or argument it came from
+ */
+function toAddress(value: string, source: string): string {
+  if (!value || !ethers.isAddress(value)) {
+    throw new Error(`${source}: "${value}" is not a valid address`);
+  }
+  return ethers.getAddress(value);
+}
+
+/**
+ * Parses a boolean CSV cell, defaulting to `fallback` when empty
+ */
+function toBoolean(value: string | undefined, fallback: boolean, source: string): boolean {
+  if (value === undefined || value === '') return fallback;
+  if (/^(true|yes|1)$/i.test(value)) return true;
+  if (/^(false|no|0)$/i.test(value)) return false;
+  throw new Error(`${source}: "${value}" is not a boolean`);
+}
+
+/**
+ * Reads the address (and optional amount/enabled columns) targeted by a command, from --csv or positional arguments
+ */
+function readTargets(argv: string[], positional: string[]): { address: string; amount?: string; enabled?: string; source: string }[] {
+  const csvFile = getFlag(argv, '--csv');
+  if (csvFile) {
+    const rows = readCsv(path.resolve(process.cwd(), csvFile));
+    return rows.map((row, i) => ({ address: row.address, amount: row.amount, enabled: row.enabled, source: `${csvFile} row ${i + 1}` }));
+  }
+  if (!positional[0]) {
+    throw new Error('Pass an address or --csv <file>');
+  }
+  return [{ address: positional[0], amount: positional[1], source: 'argument' }];
+}
+
+/**
+ * Builds the list of calls for a command
+ */
+export function planCalls(command: string, argv: string[], positional: string[], decimals: number): PlannedCall[] {
+  if (command === 'enable-transfer') {
+    return [{ label: 'enableTransfer()', method: 'enableTransfer', args: [], event: { name: 'TransferUnpaused', matches: () => true } }];
+  }
+
+  const targets = readTargets(argv, positional);
+  const seen = new Set<string>();
+  const calls: PlannedCall[] = [];
+
+  for (const target of targets) {
+    const address = toAddress(target.address, target.source);
+    if (seen.has(address)) {
+      console.warn(`${colors.yellow}Warning: ${target.source}: duplicate address ${address} skipped${colors.reset}`);
+      continue;
+    }
+    seen.add(address);
+
+    if (command === 'blacklist' || command === 'whitelist') {
+      const enabled = toBoolean(target.enabled, !argv.includes('--remove'), target.source);
+      const method = command === 'blacklist' ? 'setBlacklist' : 'setWhitelist';
+      const eventName = command === 'blacklist' ? 'Blacklist' : 'Whitelist';
+      calls.push({
+        label: `${method}(${address}, ${enabled})`,
+        method,
+        args: [address, enabled],
+        event: { name: eventName, matches: args => args[0] === address && args[1] === enabled }
+      });
+    } else if (command === 'mint' || command === 'burn') {
+      if (!target.amount || !/^\d+(\.\d+)?$/.test(target.amount)) {
+        throw new Error(`${target.source}: amount "${target.amount ?? ''}" must be a decimal token amount`);
+      }
+      const amount = ethers.parseUnits(target.amount, decimals);
+      const [from, to] = command === 'mint' ? [ethers.ZeroAddress, address] : [address, ethers.ZeroAddress];
+      calls.push({
+        label: `${command}(${address}, ${target.amount})`,
+        method: command,
+        args: [address, amount],
+        event: { name: 'Transfer', matches: args => args[0] === from && args[1] === to && args[2] === amount }
+      });
+    } else {
+      throw new Error(`Unknown token command "${command}"`);
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Dry-runs every call with eth_call from the signer, returning the calls that would revert
+ */
+async function previewCalls(token: ethers.Contract, from: string, calls: PlannedCall[]): Promise<PlannedCall[]> {
+  const failing: PlannedCall[] = [];
+  for (const call of calls) {
+    try {
+      await token[call.method].staticCall(...call.args, { from });
+      console.log(`  ${colors.green}✓${colors.reset} ${call.label}`);
+    } catch (error) {
+      console.log(`  ${colors.red}✗${colors.reset} ${call.label}: ${describeError(error)}`);
+      failing.push(call);
+    }
+  }
+  return failing;
+}
+
+/**
+ * Sends every call with locally managed nonces, then waits for the receipts and checks the emitted events
+ */
+async function sendCalls(token: ethers.Contract, signer: ethers.Signer, calls: PlannedCall[]): Promise<number> {
+  const sender = new ethers.NonceManager(signer);
+  const connected = token.connect(sender) as ethers.Contract;
+  const tokenAddress = await token.getAddress();
+
+  const sent: { call: PlannedCall; tx: ethers.ContractTransactionResponse }[] = [];
+  for (const call of calls) {
+    try {
+      const tx = await connected[call.method](...call.args);
+      console.log(`  Sent ${call.label}: ${tx.hash} (nonce ${tx.nonce})`);
+      sent.push({ call, tx });
+    } catch (error) {
+      console.error(`${colors.red}Failed to send ${call.label}: ${describeError(error)}${colors.reset}`);
+      console.error('Not sending the remaining calls.');
+      break;
+    }
+  }
+
+  let confirmed = 0;
+  for (const { call, tx } of sent) {
+    const receipt = await tx.wait();
+    const events = (receipt?.logs || [])
+      .filter(log => log.address === tokenAddress)
+      .map(log => token.interface.parseLog(log))
+      .filter((parsed): parsed is ethers.LogDescription => parsed !== null && parsed.name === call.event.name);
+
+    if (receipt?.status === 1 && events.some(event => call.event.matches(event.args))) {
+      console.log(`  ${colors.green}✓${colors.reset} ${call.label} confirmed in block ${receipt.blockNumber} (${call.event.name} emitted)`);
+      confirmed++;
+    } else {
+      console.log(`  ${colors.red}✗${colors.reset} ${call.label}: no matching ${call.event.name} event in ${tx.hash}`);
+    }
+  }
+
+  return confirmed;
+}
+
+const showHelp = () => {
+  console.log(`
+${colors.cyan}Token Admin CLI${colors.reset}
+${colors.yellow}Usage:${colors.reset}
+  pnpm token whitelist <address> [--remove]
+  pnpm token whitelist --csv <file>          # columns: address[,enabled]
+  pnpm token blacklist <address> [--remove]
+  pnpm token blacklist --csv <file>          # columns: address[,enabled]
+  pnpm token enable-transfer
+  pnpm token mint <address> <amount>         # amount in whole tokens, e.g. 1000.5
+  pnpm token mint --csv <file>               # columns: address,amount
+  pnpm token burn <address> <amount>
+  pnpm token burn --csv <file>               # columns: address,amount
+
+${colors.yellow}Options:${colors.reset}
+  --dry-run              Only preview the calls with eth_call
+  --yes                  Skip the confirmation prompt
+  --network <name>       Network profile from networks.config.json
+  --deployment <name>    Deployment to act on (default: the active deployment)
+  `);
+};
+
+// Main function
+export const main = async () => {
+  setupOutput();
+  const argv = process.argv;
+  const [command, ...rest] = argv.slice(2);
+  if (!command || command === '--help') {
+    showHelp();
+    process.exit(0);
+  }
+
+  try {
+    const network = resolveNetwork();
+    const deployment = resolveDeployment(network.chainId);
+    const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+    const signer = await getSigner(provider);
+    const from = await signer.getAddress();
+    const token = new ethers.Contract(deployment.contracts.token.address, loadArtifact('UngovernableERC20').abi, provider);
+
+    if (DEBUG) {
+      console.log(`Network: ${network.name} (chain ID ${network.chainId})`);
+      console.log(`Deployment: ${deployment.name}`);
+    }
+    console.log(`Token: ${await token.symbol()} at ${deployment.contracts.token.address}`);
+    console.log(`Sender: ${from}`);
+
+    const decimals = Number(await token.decimals());
+    const calls = planCalls(command, argv, getPositionals(rest, VALUE_FLAGS), decimals);
+    if (calls.length === 0) {
+      console.log('Nothing to do.');
+      finish('token', { calls: [] });
+    }
+
+    console.log(`\nPreviewing ${calls.length} call(s):`);
+    const failing = await previewCalls(token, from, calls);
+    if (failing.length > 0) {
+      throw new Error(`${failing.length} call(s) would revert, nothing was sent`);
+    }
+
+    const planned = calls.map(call => call.label);
+    if (argv.includes('--dry-run')) {
+      console.log('\nDry run, not sending.');
+      finish('token', { calls: planned, dryRun: true });
+    }
+    if (!(await confirm(`\nSend ${calls.length} transaction(s) from ${from}?`, argv))) {
+      console.log('Aborted.');
+      finish('token', { calls: planned, aborted: true });
+    }
+
+    console.log('');
+    const confirmed = await sendCalls(token, signer, calls);
+    if (confirmed !== calls.length) {
+      throw new Error(`${confirmed}/${calls.length} call(s) confirmed`);
+    }
+    console.log(`\n${colors.green}✅ ${confirmed}/${calls.length} call(s) confirmed${colors.reset}`);
+    finish('token', { calls: planned, confirmed });
+  } catch (error: any) {
+    console.error(`${colors.red}Error: ${describeError(error)}${colors.reset}`);
+    if (DEBUG) {
+      console.error(error);
+    }
+    fail('token', error);
+  }
+};
+
+if (require.main === module) {
+  main();
+}
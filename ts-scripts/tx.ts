@@ -0,0 +1,9 @@
+/**
+ * Formats an error from a reverted call or failed transaction, preferring the decoded revert reason
+ */
+export function describeError(error: any): string {
+  if (error?.revert) {
+    return `${error.revert.name}(${error.revert.args.join(', ')})`;
+  }
+  return error?.shortMessage || error?.message || String(error);
+}
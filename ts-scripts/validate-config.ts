@@ -0,0 +1,366 @@
+#!/usr/bin/env ts-node
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommandError, fail, finish, ResultError, setupOutput } from './output';
+
+// Define ANSI color codes for console output
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+};
+
+const UINT32_MAX = 2 ** 32 - 1;
+const UINT48_MAX = 2 ** 48 - 1;
+const TOKEN_DECIMALS = 18;
+const ONE_DAY = 86400;
+
+export interface DeployConfig {
+  governor: {
+    _initialProposalThreshold: bigint;
+    _initialQuorumPercentage: number;
+    _initialVoteExtension: number;
+    _initialVotingDelay: number;
+    _initialVotingPeriod: number;
+    _name: string;
+  };
+  token: {
+    _name: string;
+    _symbol: string;
+  };
+  // CREATE2 salt, deploys to deterministic addresses when set
+  salt?: string;
+}
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  config?: DeployConfig;
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+}
+
+const GOVERNOR_KEYS = [
+  '_initialProposalThreshold',
+  '_initialQuorumPercentage',
+  '_initialVoteExtension',
+  '_initialVotingDelay',
+  '_initialVotingPeriod',
+  '_name',
+];
+const TOKEN_KEYS = ['_name', '_symbol'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Formats a duration in seconds as days/hours/minutes
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds === 0) return '0s';
+  const parts: string[] = [];
+  const days = Math.floor(seconds / ONE_DAY);
+  const hours = Math.floor((seconds % ONE_DAY) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+  if (days) parts.push(`${days}d`);
+  if (hours) parts.push(`${hours}h`);
+  if (minutes) parts.push(`${minutes}m`);
+  if (rest) parts.push(`${rest}s`);
+  return parts.join(' ');
+}
+
+/**
+ * Formats a raw 18-decimal token amount in whole tokens, with thousands separators
+ */
+export function formatTokenAmount(amount: bigint, decimals = TOKEN_DECIMALS): string {
+  const base = 10n ** BigInt(decimals);
+  const whole = (amount / base).toString().replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  const fraction = (amount % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Checks that a value is a non-negative integer within `max`
+ */
+function checkInteger(
+  errors: ConfigIssue[],
+  keyPath: string,
+  value: unknown,
+  min: number,
+  max: number,
+  typeName: string
+): number | undefined {
+  // Missing keys are reported by checkKeys
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    errors.push({ path: keyPath, message: `must be an integer (${typeName}), got ${JSON.stringify(value)}` });
+    return undefined;
+  }
+  if (value < min || value > max) {
+    errors.push({ path: keyPath, message: `must be between ${min} and ${max} (${typeName}), got ${value}` });
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Checks that a value is a non-empty string
+ */
+function checkString(errors: ConfigIssue[], keyPath: string, value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push({ path: keyPath, message: `must be a non-empty string, got ${JSON.stringify(value)}` });
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Checks that the proposal threshold is a decimal string that fits in a uint256
+ */
+function checkThreshold(errors: ConfigIssue[], warnings: ConfigIssue[], keyPath: string, value: unknown): bigint | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      errors.push({
+        path: keyPath,
+        message: `${value} cannot be represented exactly in JSON, write it as a decimal string (e.g. "10000000000000000000000000")`,
+      });
+      return undefined;
+    }
+    warnings.push({ path: keyPath, message: 'should be a decimal string to avoid precision loss' });
+    return BigInt(value);
+  }
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    errors.push({ path: keyPath, message: `must be a decimal string of token wei, got ${JSON.stringify(value)}` });
+    return undefined;
+  }
+  const threshold = BigInt(value);
+  if (threshold >= 2n ** 256n) {
+    errors.push({ path: keyPath, message: 'does not fit in a uint256' });
+    return undefined;
+  }
+  return threshold;
+}
+
+/**
+ * Reports keys that are missing from or unknown to a config section
+ */
+function checkKeys(errors: ConfigIssue[], section: string, value: Record<string, unknown>, expected: string[]) {
+  for (const key of expected) {
+    if (!(key in value)) {
+      errors.push({ path: `${section}.${key}`, message: 'is missing' });
+    }
+  }
+  for (const key of Object.keys(value)) {
+    if (!expected.includes(key)) {
+      const suggestion = expected.find(candidate => candidate.toLowerCase() === key.toLowerCase().replace(/^_?/, '_'));
+      errors.push({
+        path: `${section}.${key}`,
+        message: suggestion ? `is not a known key, did you mean "${suggestion}"?` : 'is not a known key',
+      });
+    }
+  }
+}
+
+/**
+ * Validates the shape, types and ranges of a parsed deploy.config.json
+ */
+export function validateDeployConfig(raw: unknown): ConfigValidationResult {
+  const errors: ConfigIssue[] = [];
+  const warnings: ConfigIssue[] = [];
+
+  if (!isObject(raw)) {
+    return { errors: [{ path: '', message: 'config must be a JSON object' }], warnings };
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (key !== 'governor' && key !== 'token' && key !== 'salt') {
+      errors.push({ path: key, message: 'is not a known key' });
+    }
+  }
+
+  const governor = raw.governor;
+  const token = raw.token;
+  if (!isObject(governor)) {
+    errors.push({ path: 'governor', message: 'must be an object' });
+  }
+  if (!isObject(token)) {
+    errors.push({ path: 'token', message: 'must be an object' });
+  }
+  if (!isObject(governor) || !isObject(token)) {
+    return { errors, warnings };
+  }
+
+  checkKeys(errors, 'governor', governor, GOVERNOR_KEYS);
+  checkKeys(errors, 'token', token, TOKEN_KEYS);
+
+  const threshold = checkThreshold(errors, warnings, 'governor._initialProposalThreshold', governor._initialProposalThreshold);
+  const quorum = checkInteger(errors, 'governor._initialQuorumPercentage', governor._initialQuorumPercentage, 1, 100, 'percent');
+  const extension = checkInteger(errors, 'governor._initialVoteExtension', governor._initialVoteExtension, 0, UINT48_MAX, 'uint48 seconds');
+  const delay = checkInteger(errors, 'governor._initialVotingDelay', governor._initialVotingDelay, 0, UINT48_MAX, 'uint48 seconds');
+  const period = checkInteger(errors, 'governor._initialVotingPeriod', governor._initialVotingPeriod, 1, UINT32_MAX, 'uint32 seconds');
+  const governorName = checkString(errors, 'governor._name', governor._name);
+  const tokenName = checkString(errors, 'token._name', token._name);
+  const tokenSymbol = checkString(errors, 'token._symbol', token._symbol);
+  if (raw.salt !== undefined && (typeof raw.salt !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(raw.salt))) {
+    errors.push({ path: 'salt', message: `must be a 32-byte hex string (0x followed by 64 hex digits), got ${JSON.stringify(raw.salt)}` });
+  }
+
+  if (errors.length > 0) {
+    return { errors, warnings };
+  }
+
+  const config: DeployConfig = {
+    governor: {
+      _initialProposalThreshold: threshold!,
+      _initialQuorumPercentage: quorum!,
+      _initialVoteExtension: extension!,
+      _initialVotingDelay: delay!,
+      _initialVotingPeriod: period!,
+      _name: governorName!,
+    },
+    token: {
+      _name: tokenName!,
+      _symbol: tokenSymbol!,
+    },
+  };
+  if (raw.salt !== undefined) {
+    config.salt = raw.salt as string;
+  }
+
+  // Risky but valid combinations
+  if (config.governor._initialVoteExtension > config.governor._initialVotingPeriod) {
+    warnings.push({
+      path: 'governor._initialVoteExtension',
+      message: `vote extension (${formatDuration(extension!)}) is longer than the voting period (${formatDuration(period!)})`,
+    });
+  }
+  if (config.governor._initialVotingPeriod < ONE_DAY) {
+    warnings.push({ path: 'governor._initialVotingPeriod', message: `voting period of ${formatDuration(period!)} is shorter than one day` });
+  }
+  if (config.governor._initialVotingDelay === 0) {
+    warnings.push({ path: 'governor._initialVotingDelay', message: 'a zero voting delay lets proposers vote with freshly acquired tokens' });
+  }
+  if (config.governor._initialProposalThreshold === 0n) {
+    warnings.push({ path: 'governor._initialProposalThreshold', message: 'a zero threshold lets any address create proposals' });
+  } else if (config.governor._initialProposalThreshold < 10n ** BigInt(TOKEN_DECIMALS)) {
+    warnings.push({
+      path: 'governor._initialProposalThreshold',
+      message: 'threshold is below one whole token, the value is in wei (18 decimals)',
+    });
+  }
+  if (config.governor._initialQuorumPercentage > 50) {
+    warnings.push({ path: 'governor._initialQuorumPercentage', message: `a quorum of ${quorum}% may be unreachable` });
+  }
+
+  return { config, errors, warnings };
+}
+
+/**
+ * Reads, parses and validates deploy.config.json, throwing if it is invalid
+ */
+export function loadDeployConfig(configPath = path.join(process.cwd(), 'deploy.config.json')): DeployConfig {
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Deploy config not found at ${configPath}`);
+  }
+  const { config, errors } = validateDeployConfig(JSON.parse(fs.readFileSync(configPath, 'utf8')));
+  if (!config) {
+    throw new Error(`Invalid deploy config: ${errors.map(e => `${e.path} ${e.message}`).join('; ')}`);
+  }
+  return config;
+}
+
+/**
+ * Prints the validated config in human units
+ */
+function printConfigTable(config: DeployConfig) {
+  const { governor, token } = config;
+  const rows: [string, string][] = [
+    ['token._name', token._name],
+    ['token._symbol', token._symbol],
+    ['governor._name', governor._name],
+    ['governor._initialProposalThreshold', `${formatTokenAmount(governor._initialProposalThreshold)} ${token._symbol}`],
+    ['governor._initialQuorumPercentage', `${governor._initialQuorumPercentage}% of supply`],
+    ['governor._initialVotingDelay', formatDuration(governor._initialVotingDelay)],
+    ['governor._initialVotingPeriod', formatDuration(governor._initialVotingPeriod)],
+    ['governor._initialVoteExtension', formatDuration(governor._initialVoteExtension)],
+    ['salt', config.salt ? `${config.salt} (CREATE2, see pnpm predict)` : 'none (addresses depend on the deployer nonce)'],
+  ];
+  const width = Math.max(...rows.map(([key]) => key.length));
+  for (const [key, value] of rows) {
+    console.log(`  ${key.padEnd(width)}  ${colors.cyan}${value}${colors.reset}`);
+  }
+}
+
+/**
+ * Reads and validates deploy.config.json, printing its problems or, when it is valid, the config table
+ */
+export function checkDeployConfig(configPath = path.join(process.cwd(), 'deploy.config.json')): {
+  config?: DeployConfig;
+  errors: ResultError[];
+  warnings: ResultError[];
+} {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error: any) {
+    throw new CommandError('invalid', 'CONFIG_UNREADABLE', `Could not read ${configPath}: ${error.message}`);
+  }
+
+  const { config, errors, warnings } = validateDeployConfig(raw);
+  const toResultError = (code: string) => (issue: ConfigIssue) => ({ code, message: `${issue.path} ${issue.message}` });
+
+  if (errors.length > 0) {
+    console.error(`${colors.red}Error: deploy.config.json is invalid:${colors.reset}`);
+    errors.forEach(issue => {
+      console.error(`  - ${colors.yellow}${issue.path}${colors.reset} ${issue.message}`);
+    });
+    return { errors: errors.map(toResultError('CONFIG_INVALID')), warnings: warnings.map(toResultError('CONFIG_WARNING')) };
+  }
+
+  warnings.forEach(issue => {
+    console.warn(`${colors.yellow}Warning: ${issue.path} ${issue.message}${colors.reset}`);
+  });
+
+  console.log(`${colors.green}✓ deploy.config.json is valid:${colors.reset}`);
+  printConfigTable(config!);
+  return { config, errors: [], warnings: warnings.map(toResultError('CONFIG_WARNING')) };
+}
+
+/**
+ * Checks deploy.config.json and fails before deploying when it is invalid. Returns its warnings.
+ */
+export function requireDeployConfig(configPath?: string): ResultError[] {
+  const { errors, warnings } = checkDeployConfig(configPath);
+  if (errors.length > 0) {
+    throw new CommandError('invalid', 'CONFIG_INVALID', `deploy.config.json is invalid: ${errors.map(error => error.message).join('; ')}`);
+  }
+  return warnings;
+}
+
+// Main function
+export const main = (): void => {
+  setupOutput();
+  try {
+    const { config, errors, warnings } = checkDeployConfig();
+    if (errors.length > 0) {
+      finish('validate:config', { warnings }, 'invalid', errors);
+    }
+    finish('validate:config', { config, warnings });
+  } catch (error: any) {
+    console.error(`${colors.red}Error: ${error.message}${colors.reset}`);
+    fail('validate:config', error);
+  }
+};
+
+if (require.main === module) {
+  main();
+}
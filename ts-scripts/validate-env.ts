@@ -1,5 +1,13 @@
 #!/usr/bin/env ts-node
+import * as fs from 'fs';
+import * as path from 'path';
 import * as process from 'process';
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { getFlag } from './args';
+import { loadNetworks, parseNetworkArg, resolveNetwork } from './networks';
+import { CommandError, FailureClass, fail, finish, ResultError, setupOutput } from './output';
+import { createSigner, loadSignerConfig, SIGNER_BACKENDS, SIGNER_REQUIRED_VARS, SignerBackend } from './signer';
 
 // Define ANSI color codes for console output
 const colors = {
@@ -10,47 +18,344 @@ const colors = {
   blue: '\x1b[34m',
 };
 
-// Function to validate required environment variables
-const validateEnvVars = (): void => {
+/**
+ * What a command needs from the environment
+ */
+export interface EnvRequirements {
+  // Signs transactions or Tally logins
+  signer: boolean;
+  // Reads the chain through RPC_URL
+  rpc: boolean;
+  // Verifies contracts, so needs the API keys of the selected verifiers
+  verify: boolean;
+  // Calls the Tally API
+  tally: boolean;
+  // Pays for transactions, so the deployer needs a balance
+  funded: boolean;
+}
+
+/**
+ * The requirements of each CLI command. Every command needs CHAIN_ID.
+ */
+export const COMMAND_REQUIREMENTS: Record<string, EnvRequirements> = {
+  'deploy:test': { signer: true, rpc: true, verify: false, tally: false, funded: true },
+  'deploy:prod': { signer: true, rpc: true, verify: true, tally: false, funded: true },
+  'verify': { signer: false, rpc: true, verify: true, tally: false, funded: false },
+  'renounce:test': { signer: true, rpc: true, verify: false, tally: false, funded: false },
+  'renounce:prod': { signer: true, rpc: true, verify: false, tally: false, funded: true },
+  'publish:tally': { signer: true, rpc: true, verify: false, tally: true, funded: false },
+  'check:tally': { signer: true, rpc: false, verify: false, tally: true, funded: false },
+  'deployments': { signer: false, rpc: false, verify: false, tally: false, funded: false },
+  'predict': { signer: true, rpc: false, verify: false, tally: false, funded: false },
+  'predict:check': { signer: true, rpc: true, verify: false, tally: false, funded: false },
+  'renounce:preflight': { signer: true, rpc: true, verify: false, tally: false, funded: false },
+  'status:ownership': { signer: false, rpc: true, verify: false, tally: false, funded: false },
+  'tally:sync': { signer: true, rpc: false, verify: false, tally: true, funded: false },
+  'tally:logout': { signer: true, rpc: false, verify: false, tally: false, funded: false },
+  'token': { signer: true, rpc: true, verify: false, tally: false, funded: true },
+  'distribute': { signer: true, rpc: true, verify: false, tally: false, funded: true },
+  'proposal:create': { signer: true, rpc: true, verify: false, tally: false, funded: true },
+  'proposal:vote': { signer: true, rpc: true, verify: false, tally: false, funded: true },
+  'proposal:status': { signer: false, rpc: true, verify: false, tally: false, funded: false },
+  'proposal:queue': { signer: true, rpc: true, verify: false, tally: false, funded: true },
+  'proposal:execute': { signer: true, rpc: true, verify: false, tally: false, funded: true },
+  'launch': { signer: true, rpc: true, verify: true, tally: true, funded: true }
+};
+
+// Without --command every requirement applies, as for a full launch
+const ALL_REQUIREMENTS = COMMAND_REQUIREMENTS.launch;
+
+// Variables the scripts read that .env.sample leaves out because they rarely need changing
+const OPTIONAL_VARS = [
+  'DEBUG',
+  'DEPLOYMENT',
+  'EXPLORER_API_URL',
+  'TALLY_API_URL',
+  'TALLY_API_TOKEN',
+  'TALLY_TOKEN_CACHE',
+  'TALLY_SIWE_DOMAIN',
+  'TALLY_SIWE_URI',
+  'TALLY_SIWE_CHAIN_ID'
+];
+
+const RPC_TIMEOUT_MS = 10_000;
+
+/**
+ * A failed check, with the failure class it exits with
+ */
+export interface EnvIssue extends ResultError {
+  failure: FailureClass;
+}
+
+/**
+ * The outcome of checking the environment for a command
+ */
+export interface EnvReport {
+  command: string;
+  envFile: string;
+  envFileLoaded: boolean;
+  network?: string;
+  missing: string[];
+  errors: EnvIssue[];
+  warnings: ResultError[];
+  deployer?: string;
+  balance?: bigint;
+}
+
+/**
+ * The names of the required variables that are unset or empty
+ */
+export function missingEnvVars(requirements: EnvRequirements, env: NodeJS.ProcessEnv = process.env): string[] {
+  const signer = (env.SIGNER || 'private-key') as SignerBackend;
+  if (!SIGNER_BACKENDS.includes(signer)) {
+    throw new CommandError('invalid', 'ENV_INVALID', `Unknown SIGNER "${signer}". Use one of: ${SIGNER_BACKENDS.join(', ')}`);
+  }
+
+  // Only the etherscan verifier needs an API key
+  const verifiers = (env.VERIFIERS || 'etherscan').split(',').map(verifier => verifier.trim().split('=')[0]);
   const requiredVars = [
-    'PRIVATE_KEY',
+    ...(requirements.signer ? SIGNER_REQUIRED_VARS[signer] : []),
     'CHAIN_ID',
-    'RPC_URL',
-    'ETHERSCAN_API_KEY',
+    ...(requirements.rpc ? ['RPC_URL'] : []),
+    ...(requirements.verify && verifiers.includes('etherscan') ? ['ETHERSCAN_API_KEY'] : []),
+    ...(requirements.tally ? ['TALLY_API_KEY'] : [])
   ];
-  
-  const missingVars: string[] = [];
-  
-  // Check each required variable
-  for (const varName of requiredVars) {
-    if (!process.env[varName] || process.env[varName].trim() === '') {
-      missingVars.push(varName);
+  return requiredVars.filter(name => !env[name] || env[name]!.trim() === '');
+}
+
+// Number of single-character edits between two strings
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
     }
+    previous = current;
   }
-  
-  // If there are missing variables, display error and exit
-  if (missingVars.length > 0) {
-    console.error(`${colors.red}Error: Missing required environment variables:${colors.reset}`);
-    missingVars.forEach(varName => {
-      console.error(`  - ${colors.yellow}${varName}${colors.reset}`);
+  return previous[b.length];
+};
+
+/**
+ * The keys that are not known variables, each with the closest known name when it looks like a typo
+ */
+export function unknownEnvKeys(keys: string[], known: string[]): { key: string; suggestion?: string }[] {
+  return keys
+    .filter(key => !known.includes(key))
+    .map(key => {
+      const [suggestion] = known
+        .map(name => ({ name, distance: editDistance(key.toUpperCase(), name) }))
+        .filter(({ distance }) => distance <= 2)
+        .sort((a, b) => a.distance - b.distance);
+      return { key, suggestion: suggestion?.name };
     });
-    console.error(`\n${colors.blue}Please add these variables to your .env file or set them in your environment.${colors.reset}`);
-    console.error(`${colors.blue}You can reference .env.sample for the required variables.${colors.reset}`);
-    process.exit(1);
+}
+
+/**
+ * The address of a private key, which must be 32 bytes of hex with or without 0x
+ */
+export function privateKeyAddress(privateKey: string): string {
+  const key = privateKey.trim();
+  if (!/^(0x)?[0-9a-fA-F]{64}$/.test(key)) {
+    throw new Error('PRIVATE_KEY must be 32 bytes of hex (64 hex digits, optionally prefixed with 0x)');
+  }
+  try {
+    return new ethers.Wallet(key.startsWith('0x') ? key : `0x${key}`).address;
+  } catch {
+    throw new Error('PRIVATE_KEY is not a valid secp256k1 private key');
   }
-  
-  console.log(`${colors.green}✓ All required environment variables are set.${colors.reset}`);
+}
+
+/**
+ * Sends one JSON-RPC request without a provider, which would keep retrying an unreachable node
+ */
+async function rpcCall(url: string, method: string, params: unknown[]): Promise<any> {
+  const request = new ethers.FetchRequest(url);
+  request.timeout = RPC_TIMEOUT_MS;
+  request.setHeader('content-type', 'application/json');
+  request.body = JSON.stringify({ jsonrpc: '2.0', id: 1, method, params });
+  const response = await request.send();
+  response.assertOk();
+  const body = response.bodyJson;
+  if (body.error) {
+    throw new Error(body.error.message ?? JSON.stringify(body.error));
+  }
+  return body.result;
+}
+
+// Variables from .env.sample plus the RPC URL and explorer key variables of the network profiles
+const knownEnvVars = (): string[] => {
+  const samplePath = path.join(process.cwd(), '.env.sample');
+  const sample = fs.existsSync(samplePath) ? Object.keys(dotenv.parse(fs.readFileSync(samplePath))) : [];
+  const profiles = loadNetworks().flatMap(network => [network.rpcUrlEnv, network.explorerApiKeyEnv ?? '']);
+  return [...new Set([...sample, ...OPTIONAL_VARS, ...profiles])].filter(Boolean);
 };
 
+/**
+ * The address the configured signer sends from. A keystore is not decrypted, its address is read from the file.
+ */
+async function signerAddress(): Promise<string> {
+  const config = loadSignerConfig();
+  if (config.backend === 'private-key') {
+    return privateKeyAddress(config.privateKey!);
+  }
+  if (config.backend === 'keystore') {
+    const { address } = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), config.keystorePath!), 'utf8'));
+    if (!address) {
+      throw new Error(`${config.keystorePath} does not record its address`);
+    }
+    return ethers.getAddress(address);
+  }
+  return (await createSigner(config)).getAddress();
+}
+
+/**
+ * Checks the environment for a command: the variables it needs are set and well formed, RPC_URL serves
+ * CHAIN_ID and the deployer can pay for gas. Prints each finding as it goes.
+ */
+export async function checkEnv(command?: string): Promise<EnvReport> {
+  if (command && !COMMAND_REQUIREMENTS[command]) {
+    throw new CommandError('invalid', 'ARGUMENT_INVALID', `Unknown command "${command}". Commands: ${Object.keys(COMMAND_REQUIREMENTS).join(', ')}`);
+  }
+  const requirements = command ? COMMAND_REQUIREMENTS[command] : ALL_REQUIREMENTS;
+  const envFile = path.resolve(process.cwd(), process.env.ENV_FILE || '.env');
+  const report: EnvReport = {
+    command: command ?? 'all',
+    envFile: path.relative(process.cwd(), envFile),
+    envFileLoaded: fs.existsSync(envFile),
+    missing: [],
+    errors: [],
+    warnings: []
+  };
+  const error = (failure: FailureClass, code: string, message: string) => {
+    console.error(`${colors.red}✗ ${message}${colors.reset}`);
+    report.errors.push({ failure, code, message });
+  };
+  const warn = (code: string, message: string) => {
+    console.warn(`${colors.yellow}⚠ ${message}${colors.reset}`);
+    report.warnings.push({ code, message });
+  };
+
+  if (report.envFileLoaded) {
+    console.log(`${colors.blue}Environment file: ${report.envFile}${colors.reset}`);
+    const keys = Object.keys(dotenv.parse(fs.readFileSync(envFile)));
+    for (const { key, suggestion } of unknownEnvKeys(keys, knownEnvVars())) {
+      warn('ENV_UNKNOWN', `${key} in ${report.envFile} is not a known variable${suggestion ? `, did you mean ${suggestion}?` : ''}`);
+    }
+  } else {
+    warn('ENV_FILE_MISSING', `${report.envFile} not found, using the process environment only`);
+  }
+
+  // Map the selected network profile onto CHAIN_ID/RPC_URL/ETHERSCAN_API_KEY before checking them
+  let tally = requirements.tally;
+  let currency = 'ETH';
+  if (parseNetworkArg() || process.env.NETWORK) {
+    const profile = resolveNetwork();
+    report.network = profile.name;
+    // A launch skips the Tally step on networks without Tally
+    tally = tally && profile.tally;
+    currency = profile.nativeCurrency ?? currency;
+    console.log(`${colors.blue}Using network ${profile.name} (chain ID ${profile.chainId})${colors.reset}`);
+  }
+
+  report.missing = missingEnvVars({ ...requirements, tally });
+  for (const name of report.missing) {
+    error('invalid', 'ENV_MISSING', `Missing required environment variable ${name}`);
+  }
+
+  const chainIdValue = process.env.CHAIN_ID?.trim();
+  const chainId = chainIdValue && /^\d+$/.test(chainIdValue) && Number(chainIdValue) > 0 ? Number(chainIdValue) : undefined;
+  if (chainIdValue && chainId === undefined) {
+    error('invalid', 'ENV_INVALID', `CHAIN_ID must be a positive integer, got "${chainIdValue}"`);
+  }
+
+  if (requirements.signer && !report.missing.some(name => SIGNER_REQUIRED_VARS[(process.env.SIGNER || 'private-key') as SignerBackend].includes(name))) {
+    try {
+      report.deployer = await signerAddress();
+      console.log(`${colors.green}✓ Signer address: ${report.deployer}${colors.reset}`);
+    } catch (signerError: any) {
+      error('invalid', 'ENV_INVALID', signerError.message);
+    }
+  }
+
+  const rpcUrl = process.env.RPC_URL?.trim();
+  let rpcReachable = false;
+  if (requirements.rpc && rpcUrl) {
+    let url: URL | undefined;
+    try {
+      url = new URL(rpcUrl);
+    } catch {
+      error('invalid', 'ENV_INVALID', `RPC_URL is not a URL: ${rpcUrl}`);
+    }
+    if (url && !['http:', 'https:'].includes(url.protocol)) {
+      error('invalid', 'ENV_INVALID', `RPC_URL must be an http(s) URL, got ${url.protocol}`);
+    } else if (url) {
+      try {
+        const rpcChainId = Number(BigInt(await rpcCall(rpcUrl, 'eth_chainId', [])));
+        rpcReachable = true;
+        if (chainId !== undefined && rpcChainId !== chainId) {
+          error('invalid', 'RPC_CHAIN_MISMATCH', `RPC_URL serves chain ID ${rpcChainId}, but CHAIN_ID is ${chainId}`);
+        } else {
+          console.log(`${colors.green}✓ RPC_URL serves chain ID ${rpcChainId}${colors.reset}`);
+        }
+      } catch (rpcError: any) {
+        error('unavailable', 'RPC_UNAVAILABLE', `RPC_URL did not answer eth_chainId: ${rpcError.shortMessage ?? rpcError.message}`);
+      }
+    }
+  }
+
+  if (requirements.funded && rpcReachable && report.deployer) {
+    try {
+      report.balance = BigInt(await rpcCall(rpcUrl!, 'eth_getBalance', [report.deployer, 'latest']));
+      if (report.balance === 0n) {
+        error('checkFailed', 'BALANCE_EMPTY', `The signer ${report.deployer} has no balance to pay for gas`);
+      } else {
+        console.log(`${colors.green}✓ Signer balance: ${ethers.formatEther(report.balance)} ${currency}${colors.reset}`);
+      }
+    } catch (rpcError: any) {
+      error('unavailable', 'RPC_UNAVAILABLE', `Could not read the signer balance: ${rpcError.shortMessage ?? rpcError.message}`);
+    }
+  }
+
+  if (report.errors.length > 0) {
+    console.error(`\n${colors.blue}Please fix these in ${report.envFile} or in your environment. You can reference .env.sample for the variables.${colors.reset}`);
+  } else {
+    console.log(`${colors.green}✓ The environment is ready${command ? ` for ${command}` : ''}.${colors.reset}`);
+  }
+  return report;
+}
+
+/**
+ * Checks the environment for a command and fails before anything is sent when it does not have what the command needs
+ */
+export async function requireEnv(command: string): Promise<EnvReport> {
+  const report = await checkEnv(command);
+  if (report.errors.length > 0) {
+    const [{ failure, code }] = report.errors;
+    throw new CommandError(failure, code, report.errors.map(error => error.message).join('; '));
+  }
+  return report;
+}
+
 // Main function
-const main = (): void => {
+export const main = async (): Promise<void> => {
+  setupOutput();
+  const command = getFlag(process.argv, '--command');
+
   try {
-    validateEnvVars();
-  } catch (error) {
-    console.error(`${colors.red}Unexpected error during environment validation:${colors.reset}`, error);
-    process.exit(1);
+    const { errors, ...report } = await checkEnv(command);
+    finish(
+      'validate:env',
+      { ...report },
+      errors[0]?.failure,
+      errors.map(({ code, message }) => ({ code, message }))
+    );
+  } catch (error: any) {
+    console.error(`${colors.red}Error: ${error.message}${colors.reset}`);
+    fail('validate:env', error);
   }
 };
 
-// Execute the main function
-main(); 
\ No newline at end of file
+if (require.main === module) {
+  main();
+}
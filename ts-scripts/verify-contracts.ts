@@ -1,7 +1,11 @@
-import { exec } from 'child_process';
-import { promises as fs } from 'node:fs';
+import { execFile } from 'child_process';
 import * as process from 'process';
-import * as path from 'path';
+import { ethers } from 'ethers';
+import { getFlag } from './args';
+import { loadArtifact } from './artifacts';
+import { encodeConstructorArgs, matchesDeploymentInput } from './constructor-args';
+import { ContractDeployment, resolveDeployment, saveDeployment } from './deployments';
+import { CommandError, fail, finish, setupOutput } from './output';
 
 // Define ANSI color codes for console output
 const colors = {
@@ -14,95 +18,83 @@ const colors = {
   cyan: '\x1b[36m',
 };
 
+// Check if debug mode is enabled
+const DEBUG = process.env.DEBUG === 'true';
+
 const THREE_SECONDS = 3000;
+// Attempts per contract while the explorer answers "pending" or rate limits, waiting 5s, 10s, 20s... in between
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY = 5000;
 
 // Define command line arguments interface
 interface CommandLineArgs {
   chainId: string;
-  etherscan: string;
+  etherscan?: string;
   rpcUrl: string;
-  target?: string;
-  script?: string;
   contracts?: string;
+  verifier?: string;
+  verifierUrl?: string;
 }
 
-// Parse command line arguments
-const parseArgs = async (): Promise<CommandLineArgs> => {
-  const args: Partial<CommandLineArgs> = {};
-  
-  // Check for help flag
-  if (process.argv.includes('--help')) {
-    showHelp();
-    process.exit(0);
-  }
-  
-  // Process command line arguments
-  for (let i = 2; i < process.argv.length; i++) {
-    const arg = process.argv[i];
-    if (arg.startsWith('--')) {
-      const key = arg.slice(2).split('=')[0];
-      const value = arg.includes('=') ? arg.split('=')[1] : process.argv[++i];
-      args[key as keyof CommandLineArgs] = value;
-    }
-  }
-  
-  // Validate required arguments
-  if (!args.chainId) {
+export type VerifierName = 'etherscan' | 'sourcify' | 'blockscout' | 'custom';
+
+const VERIFIER_NAMES: VerifierName[] = ['etherscan', 'sourcify', 'blockscout', 'custom'];
+
+/**
+ * A verifier to submit to, with the API URL to use instead of forge's default for the chain
+ */
+export interface VerifierTarget {
+  name: VerifierName;
+  url?: string;
+}
+
+/**
+ * What a forge verify-contract run reported. `pending` and `rate-limited` are retried.
+ */
+export type VerificationStatus = 'pass' | 'already-verified' | 'submitted' | 'pending' | 'rate-limited' | 'fail';
+
+// The outcome of verifying one contract with one verifier, after retries
+export interface VerificationResult {
+  contract: string;
+  address: string;
+  verifier: VerifierName;
+  status: VerificationStatus;
+  attempts: number;
+  output: string;
+}
+
+// The output of one forge verify-contract run
+export interface CommandOutput {
+  output: string;
+  failed: boolean;
+}
+
+const RETRYABLE: VerificationStatus[] = ['pending', 'rate-limited'];
+const SUCCESSFUL: VerificationStatus[] = ['pass', 'already-verified', 'submitted'];
+
+/**
+ * Reads the options from the command line, falling back to the environment the network profile was applied to
+ */
+export const parseArgs = (argv: string[] = process.argv): CommandLineArgs => {
+  const chainId = getFlag(argv, '--chainId') || process.env.CHAIN_ID;
+  const rpcUrl = getFlag(argv, '--rpcUrl') || process.env.RPC_URL;
+  if (!chainId) {
     throw new Error('Missing required argument: --chainId');
   }
-  if (!args.etherscan) {
-    throw new Error('Missing required argument: --etherscan');
-  }
-  if (!args.rpcUrl) {
+  if (!rpcUrl) {
     throw new Error('Missing required argument: --rpcUrl');
   }
   
-  // Set defaults for optional arguments
-  args.target = args.target || 'latest';
-  
-  // If script is not provided, find the first script in the script folder
-  if (!args.script) {
-    args.script = await findDefaultScript();
-  }
-  
-  // At this point, args.script is guaranteed to be defined
   return {
-    chainId: args.chainId!,
-    etherscan: args.etherscan!,
-    rpcUrl: args.rpcUrl!,
-    target: args.target,
-    script: args.script,
-    contracts: args.contracts
+    chainId,
+    etherscan: getFlag(argv, '--etherscan') || process.env.ETHERSCAN_API_KEY || undefined,
+    rpcUrl,
+    contracts: getFlag(argv, '--contracts'),
+    verifier: getFlag(argv, '--verifier') || process.env.VERIFIERS || undefined,
+    verifierUrl: getFlag(argv, '--verifierUrl') || process.env.EXPLORER_API_URL || undefined
   };
 };
 
-// Function to find the default script
-const findDefaultScript = async (): Promise<string> => {
-  try {
-    // Read all files in the script directory
-    const scriptDir = './script';
-    const files = await fs.readdir(scriptDir);
-    
-    // Filter for .sol files
-    const solFiles = files.filter(file => file.endsWith('.sol'));
-    
-    if (solFiles.length === 0) {
-      throw new Error('No deploy scripts found in the script directory');
-    }
-    
-    // Check if Deploy.s.sol exists and use it as default
-    if (solFiles.includes('Deploy.s.sol')) {
-      return 'Deploy.s.sol';
-    }
-    
-    // Otherwise, use the first .sol file
-    return solFiles[0];
-  } catch (error) {
-    console.error(`${colors.red}Error finding default script:${colors.reset}`, error);
-    throw new Error('Failed to find a default script. Please specify a script with --script');
-  }
-};
-
 // Function to display help information
 const showHelp = (): void => {
   console.log(`
@@ -110,202 +102,355 @@ ${colors.cyan}Contract Verification Script${colors.reset}
 ${colors.yellow}Usage:${colors.reset}
   ts-node ts-scripts/verify-contracts.ts [options]
 
-${colors.yellow}Required Options:${colors.reset}
+${colors.yellow}Required Options:${colors.reset} (default: CHAIN_ID, RPC_URL and ETHERSCAN_API_KEY from the environment)
   --chainId=<id>         The chain ID of the network (e.g., 1 for Ethereum mainnet, 11155111 for Sepolia)
-  --etherscan=<key>      Your Etherscan API key
   --rpcUrl=<url>         RPC URL for the network
+  --etherscan=<key>      Your Etherscan API key (required when verifying with etherscan)
 
 ${colors.yellow}Optional Options:${colors.reset}
-  --target=<target>      Target deployment by block number (default: 'latest')
-  --script=<script>      Deployment script name (default: 'Deploy.s.sol')
+  --deployment=<name>    Deployment from deployments/<chainId> (default: the active deployment)
   --contracts=<list>     Comma-separated list of specific contracts to verify
+  --verifier=<list>      Comma-separated verifiers: etherscan, sourcify, blockscout=<url> or custom=<url> (default: etherscan)
+  --verifierUrl=<url>    Etherscan-compatible API URL, for chains forge does not know (set from the network profile)
+  --json                 Print one result object on stdout, logs go to stderr
   --help                 Display this help message
 
 ${colors.yellow}Examples:${colors.reset}
-  # Verify all contracts from the latest deployment on Sepolia
+  # Verify all contracts from the active deployment on Sepolia
   ts-node ts-scripts/verify-contracts.ts --chainId=11155111 --etherscan=YOUR_API_KEY --rpcUrl=https://sepolia.infura.io/v3/YOUR_PROJECT_ID
 
+  # Verify with Sourcify and a Blockscout instance
+  ts-node ts-scripts/verify-contracts.ts --chainId=11155111 --rpcUrl=https://sepolia.infura.io/v3/YOUR_PROJECT_ID --verifier=sourcify,blockscout=https://eth-sepolia.blockscout.com/api
+
   # Verify specific contracts from a deployment
   ts-node ts-scripts/verify-contracts.ts --chainId=1 --etherscan=YOUR_API_KEY --rpcUrl=https://mainnet.infura.io/v3/YOUR_PROJECT_ID --contracts=UngovernableGovernor,UngovernableERC20
   `);
 };
 
-const getCompilerVersion = async(contractName: string): Promise<string> => {
-  try {
-    const data = await fs.readFile(`./out/${contractName}.sol/${contractName}.json`);
-    const abi = JSON.parse(data.toString());
-    return abi.metadata.compiler.version;
-  } catch (error) {
-    console.error(`Error reading compiler version for ${contractName}:`, error);
-    throw error;
-  }
-}
-
-// New function to get optimizer runs
-const getOptimizerRuns = async(contractName: string): Promise<number | undefined> => {
-  try {
-    const data = await fs.readFile(`./out/${contractName}.sol/${contractName}.json`);
-    const abi = JSON.parse(data.toString());
-    
-    // Check if optimizer settings exist and have runs property
-    if (abi.metadata?.settings?.optimizer?.runs !== undefined) {
-      return abi.metadata.settings.optimizer.runs;
-    }
-    return undefined;
-  } catch (error) {
-    console.error(`Error reading optimizer runs for ${contractName}:`, error);
-    return undefined;
-  }
-}
-
-const verifyContractsWithDeployedConfig = async () => {
+/**
+ * Verifies the contracts of the selected deployment with every selected verifier and stores the results in its record
+ */
+export const verifyDeployedContracts = async () => {
   try {
     console.log(`${colors.yellow}Starting contract verification process...${colors.reset}`);
     
     // Get command line arguments
+    let args: CommandLineArgs;
     try {
-      var args = await parseArgs();
+      args = parseArgs();
     } catch (error: unknown) {
       const errorMessage = error instanceof Error 
         ? error.message 
         : 'An unknown error occurred';
       console.error(`${colors.red}${errorMessage}${colors.reset}`);
       showHelp();
-      process.exit(1);
+      throw new CommandError('invalid', 'ARGUMENT_INVALID', errorMessage);
     }
     
-    console.log(`${colors.blue}Using deploy script: ${args.script}${colors.reset}`);
-    
-    // Determine the run file path based on target
-    const runFile = args.target === 'latest' 
-      ? 'run-latest.json' 
-      : `run-${args.target}.json`;
+    let verifiers: VerifierTarget[];
+    try {
+      verifiers = parseVerifiers(args.verifier || process.env.VERIFIERS || 'etherscan', args.verifierUrl);
+      verifiers.forEach(verifier => verifierArgs(verifier, args.etherscan));
+    } catch (error: any) {
+      throw new CommandError('invalid', 'ARGUMENT_INVALID', error.message);
+    }
     
-    const filePath = path.join('./broadcast', args.script!, args.chainId, runFile);
-    console.log(`${colors.blue}Reading deployment data from: ${filePath}${colors.reset}`);
+    const deployment = resolveDeployment(Number(args.chainId));
+    console.log(`${colors.blue}Using deployment: ${deployment.name}${colors.reset}`);
+    console.log(`${colors.blue}Verifiers: ${verifiers.map(verifier => verifier.url ? `${verifier.name} (${verifier.url})` : verifier.name).join(', ')}${colors.reset}`);
     
-    const data = await fs.readFile(filePath);
-    const runLatest = JSON.parse(data.toString());
-    const deployedConfig = runLatest.transactions.reduce((acc: Record<string, any>, transaction: any) => {
-      if(transaction.transactionType === 'CREATE' && transaction.contractName !== null){
-        acc[transaction.contractName] = {
-          address: transaction.contractAddress,
-          constructorArgs: transaction.arguments
-        };
-      }
-      return acc;
-    }, {});
+    const deployedContracts = Object.values(deployment.contracts);
+    const available = deployedContracts.map(contract => contract.contractName);
 
     // Parse target contracts if specified
-    let targetContracts: string[] = [];
+    let targetContracts: ContractDeployment[] = [];
     if (args.contracts) {
-      targetContracts = args.contracts.split(',').map(contract => contract.trim());
+      const names = args.contracts.split(',').map(contract => contract.trim());
       
       // Validate that all specified contracts exist in the deployment config
-      for (const contract of targetContracts) {
-        if (!deployedConfig[contract]) {
-          throw new Error(`Specified contract "${contract}" not found in deployment data. Available contracts: ${Object.keys(deployedConfig).join(', ')}`);
+      for (const contract of names) {
+        if (!available.includes(contract)) {
+          throw new CommandError('notFound', 'CONTRACT_NOT_FOUND', `Specified contract "${contract}" not found in deployment data. Available contracts: ${available.join(', ')}`);
         }
       }
+      targetContracts = deployedContracts.filter(contract => names.includes(contract.contractName));
       
-      console.log(`${colors.blue}Verifying specific contracts: ${targetContracts.join(', ')}${colors.reset}`);
+      console.log(`${colors.blue}Verifying specific contracts: ${names.join(', ')}${colors.reset}`);
     } else {
-      targetContracts = Object.keys(deployedConfig);
+      targetContracts = deployedContracts;
       console.log(`${colors.blue}Found ${targetContracts.length} contracts to verify${colors.reset}`);
     }
 
-    for (const key of targetContracts) {
-      await verifyContractWithTimeout(key, deployedConfig[key].address, `${deployedConfig[key].constructorArgs.join(' ')}`, args);
+    const provider = new ethers.JsonRpcProvider(args.rpcUrl);
+    const results: VerificationResult[] = [];
+    for (const contract of targetContracts) {
+      const encodedArgs = await encodeAndCheckConstructorArgs(provider, contract);
+      for (const verifier of verifiers) {
+        results.push(await verifyContractWithTimeout(contract.contractName, contract.address, encodedArgs, verifier, args));
+      }
     }
-    console.log(`${colors.green}Verification process completed!${colors.reset}`);
+    printSummary(results);
+    
+    // Keep the latest status per verifier in the deployment record
+    const updatedAt = new Date().toISOString();
+    for (const result of results) {
+      const contract = Object.values(deployment.contracts).find(contract => contract.contractName === result.contract)!;
+      const verifier = verifiers.find(verifier => verifier.name === result.verifier)!;
+      contract.verification = {
+        ...contract.verification,
+        [result.verifier]: { status: result.status, ...(verifier.url ? { url: verifier.url } : {}), updatedAt }
+      };
+    }
+    saveDeployment(deployment);
+    const failed = results.filter(result => !SUCCESSFUL.includes(result.status));
+    return { chainId: Number(args.chainId), deployment: deployment.name, results, failed };
   } catch (error) {
     console.error(`${colors.red}Error verifying contracts with deployed config:${colors.reset}`, error);
     throw error;
   }
 }
 
+/**
+ * Encodes the recorded constructor arguments from the artifact ABI and checks them against the end of the
+ * deployment transaction's input, so a wrong encoding fails here rather than as a bytecode mismatch on the explorer
+ */
+const encodeAndCheckConstructorArgs = async (provider: ethers.Provider, contract: ContractDeployment): Promise<string> => {
+  let encodedArgs: string;
+  try {
+    encodedArgs = encodeConstructorArgs(loadArtifact(contract.contractName).abi, contract.constructorArgs);
+  } catch (error: any) {
+    throw new CommandError('invalid', 'CONSTRUCTOR_ARGS_INVALID', `Cannot encode constructor arguments of ${contract.contractName}: ${error.message}`);
+  }
+
+  if (!contract.transactionHash) {
+    console.log(`${colors.yellow}Warning: ${contract.contractName} was reused from an earlier deterministic deployment, constructor arguments are not cross-checked${colors.reset}`);
+    return encodedArgs;
+  }
+  const tx = await provider.getTransaction(contract.transactionHash);
+  if (!tx) {
+    console.log(`${colors.yellow}Warning: deployment transaction ${contract.transactionHash} not found, constructor arguments of ${contract.contractName} are not cross-checked${colors.reset}`);
+  } else if (!matchesDeploymentInput(tx.data, encodedArgs)) {
+    throw new CommandError(
+      'checkFailed',
+      'CONSTRUCTOR_ARGS_MISMATCH',
+      `Encoded constructor arguments of ${contract.contractName} do not match the end of deployment transaction ${contract.transactionHash}`
+    );
+  } else if (DEBUG) {
+    console.log(`Constructor arguments of ${contract.contractName} match transaction ${contract.transactionHash}`);
+  }
+  return encodedArgs;
+};
+
 const verifyContractWithTimeout = async (
   contractName: string, 
   address: string, 
-  constructorArgs: string, 
+  encodedArgs: string, 
+  verifier: VerifierTarget,
   args: CommandLineArgs
-) => {
-  await new Promise((resolve) => {
-    setTimeout(async () => {
-      await verifyContract(contractName, address, constructorArgs, args);
-      resolve(true);
-    }, THREE_SECONDS);
+): Promise<VerificationResult> => {
+  await new Promise(resolve => setTimeout(resolve, THREE_SECONDS));
+  return verifyContract(contractName, address, encodedArgs, verifier, args);
+};
+
+/**
+ * Parses a comma-separated verifier list such as `etherscan,sourcify,blockscout=https://...`. A bare URL is a
+ * custom verifier, and `etherscanUrl` is the default API URL for etherscan.
+ */
+export const parseVerifiers = (spec: string, etherscanUrl?: string): VerifierTarget[] => {
+  const targets = spec.split(',').map(entry => entry.trim()).filter(Boolean).map((entry): VerifierTarget => {
+    if (/^https?:\/\//.test(entry)) {
+      return { name: 'custom', url: entry };
+    }
+    const separator = entry.indexOf('=');
+    const name = (separator === -1 ? entry : entry.slice(0, separator)) as VerifierName;
+    const url = separator === -1 ? undefined : entry.slice(separator + 1);
+    if (!VERIFIER_NAMES.includes(name)) {
+      throw new Error(`Unknown verifier "${name}". Use one of: ${VERIFIER_NAMES.join(', ')}, or a verifier URL`);
+    }
+    if ((name === 'blockscout' || name === 'custom') && !url) {
+      throw new Error(`Verifier "${name}" needs an API URL, as in ${name}=https://explorer.example/api`);
+    }
+    return { name, url: url ?? (name === 'etherscan' ? etherscanUrl : undefined) };
+  });
+  if (targets.length === 0) {
+    throw new Error('No verifier given');
+  }
+  const names = targets.map(target => target.name);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) {
+    throw new Error(`Verifier "${duplicate}" is listed more than once`);
+  }
+  return targets;
+};
+
+/**
+ * The forge verify-contract options that select a verifier
+ */
+export const verifierArgs = (target: VerifierTarget, etherscanApiKey?: string): string[] => {
+  const command = ['--verifier', target.name];
+  if (target.name === 'etherscan') {
+    if (!etherscanApiKey) {
+      throw new Error('Missing required argument: --etherscan (needed by the etherscan verifier)');
+    }
+    command.push('--etherscan-api-key', etherscanApiKey);
+  }
+  if (target.url) {
+    command.push('--verifier-url', target.url);
+  }
+  return command;
+};
+
+/**
+ * Reads the verification status from forge's result lines, final results first: a watched run prints
+ * "Pending in queue" or rate limit notices before the line that settles it
+ */
+export const parseVerificationOutput = ({ output, failed }: CommandOutput): VerificationStatus => {
+  const text = output.toLowerCase();
+  if (text.includes('contract successfully verified') || text.includes('pass - verified')) return 'pass';
+  if (text.includes('is already verified') || text.includes('contract source code already verified')) return 'already-verified';
+  if (text.includes('fail - unable to verify')) return 'fail';
+  if (text.includes('pending in queue')) return 'pending';
+  if (text.includes('max rate limit reached')) return 'rate-limited';
+  if (!failed && text.includes('submitted contract for verification')) return 'submitted';
+  return 'fail';
+};
+
+/**
+ * The GUID the explorer assigned to a submission, from forge's "GUID: `...`" line
+ */
+export const parseVerificationGuid = (output: string): string | undefined => /GUID:\s*`?([\w-]+)`?/.exec(output)?.[1];
+
+/**
+ * Runs a verification until it resolves, retrying with exponential backoff while it is pending or rate limited.
+ * Once the explorer returned a GUID, retries check that submission instead of submitting the contract again.
+ */
+export const verifyWithRetry = async (
+  contractName: string,
+  address: string,
+  verifier: VerifierName,
+  submit: () => Promise<CommandOutput>,
+  check: (guid: string) => Promise<CommandOutput>,
+  sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms)),
+  maxAttempts = MAX_ATTEMPTS
+): Promise<VerificationResult> => {
+  let guid: string | undefined;
+  for (let attempt = 1; ; attempt++) {
+    const result = guid ? await check(guid) : await submit();
+    guid = parseVerificationGuid(result.output) ?? guid;
+    const status = parseVerificationOutput(result);
+    if (!RETRYABLE.includes(status) || attempt === maxAttempts) {
+      return { contract: contractName, address, verifier, status, attempts: attempt, output: result.output };
+    }
+    const delay = RETRY_BASE_DELAY * 2 ** (attempt - 1);
+    const next = guid ? `checking ${guid}` : 'retrying';
+    console.log(`${colors.yellow}${contractName} (${verifier}): ${status}, ${next} in ${delay / 1000}s (attempt ${attempt + 1}/${maxAttempts})${colors.reset}`);
+    await sleep(delay);
+  }
+};
+
+// Runs forge without a shell, resolving with its output instead of rejecting when it fails
+const runForge = (forgeArgs: string[]): Promise<CommandOutput> =>
+  new Promise(resolve => {
+    execFile('forge', forgeArgs, { maxBuffer: 10 * 1024 * 1024 }, (err, stdout, stderr) => {
+      const output = `${stdout}${stderr}`.trim();
+      if (DEBUG || err) {
+        console.log(output);
+      }
+      resolve({ output: err ? `${output}\n${err.message}` : output, failed: Boolean(err) });
+    });
+  });
+
+// Prints one row per contract with its final status
+const printSummary = (results: VerificationResult[]) => {
+  const rows = results.map(result => [result.contract, result.address, result.verifier, result.status, String(result.attempts)]);
+  const header = ['Contract', 'Address', 'Verifier', 'Status', 'Attempts'];
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ');
+
+  console.log(`\n${colors.cyan}${line(header)}${colors.reset}`);
+  results.forEach((result, i) => {
+    const color = SUCCESSFUL.includes(result.status) ? colors.green : colors.red;
+    console.log(`${color}${line(rows[i])}${colors.reset}`);
   });
 };
 
 const verifyContract = async(
   contractName: string,
   address: string,
-  constructorArgs: string,
+  encodedArgs: string,
+  verifier: VerifierTarget,
   args: CommandLineArgs
-) => {
-  console.log(`${colors.cyan}Verifying ${contractName} at ${address}${colors.reset}`);
+): Promise<VerificationResult> => {
+  console.log(`${colors.cyan}Verifying ${contractName} at ${address} with ${verifier.name}${colors.reset}`);
 
   try {
-    const compilerVersion = await getCompilerVersion(contractName);
-    const optimizerRuns = await getOptimizerRuns(contractName);
+    const { metadata } = loadArtifact(contractName);
+    const compilerVersion = metadata.compiler.version;
+    const optimizerRuns = metadata.settings?.optimizer?.runs;
     
-    // Create a simpler command that doesn't rely on shell interpretation
-    // Use an array format for exec to avoid shell parsing issues
-    const command = [
-      'forge', 'verify-contract',
+    // Each option is its own argument, so names with spaces or quotes reach forge unchanged
+    const forgeArgs = [
+      'verify-contract',
       address,
       contractName,
       '--compiler-version', compilerVersion,
       '--watch',
-      '--verifier', 'etherscan',
-      '--etherscan-api-key', args.etherscan,
+      ...verifierArgs(verifier, args.etherscan),
       '--chain-id', args.chainId,
       '--rpc-url', args.rpcUrl
     ];
     
     // Add optimizer runs if available
     if (optimizerRuns !== undefined) {
-      command.push('--num-of-optimizations', optimizerRuns.toString());
+      forgeArgs.push('--num-of-optimizations', optimizerRuns.toString());
     }
     
-    // Get constructor types for the abi-encode command
-    const constructorTypes = await getConstructorTypes(contractName);
-    
     // Add constructor arguments if they exist
-    if (constructorTypes.length > 0) {
-      // Build the full command as a string for better shell handling
-      const fullCommand = `${command.join(' ')} --constructor-args "$(cast abi-encode 'constructor(${constructorTypes.join(',')})' ${constructorArgs})"`;
-      
-      exec(fullCommand, (err, stdout) => {
-        if (err) {
-          console.error(`${colors.red}Error:${colors.reset}`, err);
-        }
-        console.log(`${colors.green}${stdout}${colors.reset}`);
-      });
-    } else {
-      // No constructor arguments
-      exec(command.join(' '), (err, stdout) => {
-        if (err) {
-          console.error(`${colors.red}Error:${colors.reset}`, err);
-        }
-        console.log(`${colors.green}${stdout}${colors.reset}`);
-      });
+    if (encodedArgs !== '0x') {
+      forgeArgs.push('--constructor-args', encodedArgs);
     }
+    
+    const checkArgs = (guid: string) => ['verify-check', guid, ...verifierArgs(verifier, args.etherscan), '--chain-id', args.chainId];
+
+    if (DEBUG) {
+      console.log(`forge ${forgeArgs.map(arg => (arg === args.etherscan ? '<api key>' : arg)).join(' ')}`);
+    }
+    return verifyWithRetry(
+      contractName,
+      address,
+      verifier.name,
+      () => runForge(forgeArgs),
+      guid => runForge(checkArgs(guid))
+    );
   } catch (error) {
     console.error(`${colors.red}Error verifying contract ${contractName}:${colors.reset}`, error);
     throw error;
   }
 }
 
-// New function to get constructor types
-const getConstructorTypes = async(contractName: string) => {
-  const data = await fs.readFile(`./out/${contractName}.sol/${contractName}.json`);
-  const abi = JSON.parse(data.toString());
-  const constructor = abi.abi.find((method: any) => method.type === 'constructor');
-  if (!constructor) return [];
-  
-  return constructor.inputs.map((input: any) => input.type);
-}
+// Main function
+export const main = async () => {
+  setupOutput();
+  if (process.argv.includes('--help')) {
+    showHelp();
+    process.exit(0);
+  }
+  try {
+    const { results, failed, ...summary } = await verifyDeployedContracts();
+    if (failed.length > 0) {
+      console.error(`${colors.red}❌ ${failed.length} of ${results.length} contract(s) failed verification${colors.reset}`);
+    } else {
+      console.log(`${colors.green}✅ Verification process completed!${colors.reset}`);
+    }
+    finish('verify', { ...summary, contracts: results }, failed.length > 0 ? 'checkFailed' : undefined, failed.map(result => ({
+      code: result.status === 'fail' ? 'VERIFICATION_FAILED' : 'VERIFICATION_UNRESOLVED',
+      message: `${result.contract} at ${result.address} could not be verified with ${result.verifier} (${result.status} after ${result.attempts} attempt(s))`
+    })));
+  } catch (error) {
+    fail('verify', error);
+  }
+};
 
-verifyContractsWithDeployedConfig()
+if (require.main === module) {
+  main();
+}